@@ -0,0 +1,86 @@
+import { appTokenSchema } from "../schemas";
+import { singleFlight } from "../lib/singleFlight";
+import { MemoryTokenStore, StoredToken, TokenStore, TokenStoreKey } from "../lib/tokenStore";
+import type { AuthContext, AuthStrategy } from "./index";
+
+export type ClientCredentialsAuthConf = {
+	client_id: string;
+	client_secret: string;
+	token_url: string;
+	scopes: string[];
+	tokenStore: TokenStore | null;
+};
+
+export class ClientCredentialsAuth implements AuthStrategy {
+	public readonly kind = "app";
+	public readonly id: string;
+	public readonly cacheSubject: string;
+
+	private tokenStore: TokenStore;
+	private tokenKey: TokenStoreKey;
+	private token: StoredToken | null;
+	private acquireToken: (ctx: AuthContext) => Promise<StoredToken>;
+
+	constructor(private conf: ClientCredentialsAuthConf) {
+		this.id = conf.client_id;
+		this.cacheSubject = `app:${encodeURIComponent(conf.client_id)}:${encodeURIComponent(conf.scopes.join(","))}`;
+		this.tokenStore = conf.tokenStore ?? new MemoryTokenStore();
+		this.tokenKey = {
+			client: conf.client_id,
+			subject: `client_credentials:${conf.scopes.join(",")}`,
+		};
+		this.token = null;
+
+		// Concurrent requests share a single token request
+		this.acquireToken = singleFlight((ctx: AuthContext) => this.loadToken(ctx));
+	}
+
+	private async generateToken(ctx: AuthContext) {
+		const res = await ctx.http.post(this.conf.token_url, {
+			grant_type: "client_credentials",
+			client_id: this.conf.client_id,
+			client_secret: this.conf.client_secret,
+			scope: this.conf.scopes.join(" "),
+		});
+
+		return appTokenSchema.parse(res.data);
+	}
+
+	private isTokenValid(token: StoredToken | null): token is StoredToken {
+		return token !== null && token.expires_at - 30000 > Date.now();
+	}
+
+	private async loadToken(ctx: AuthContext): Promise<StoredToken> {
+		// Another process may already have stored a valid token
+		const stored = await this.tokenStore.get(this.tokenKey);
+		if (this.isTokenValid(stored)) {
+			this.token = stored;
+			return stored;
+		}
+
+		const token = await this.generateToken(ctx);
+		await this.tokenStore.set(this.tokenKey, token);
+		this.token = token;
+		await ctx.onTokenRefresh({ kind: "app", token });
+		return token;
+	}
+
+	public async getAccessToken(ctx: AuthContext): Promise<string> {
+		if (this.isTokenValid(this.token)) {
+			return this.token.access_token;
+		}
+		return (await this.acquireToken(ctx)).access_token;
+	}
+
+	public async invalidate(accessToken: string) {
+		// Only drop the token that was rejected, a newer one may already be in use
+		if (this.token && accessToken === this.token.access_token) {
+			this.token = null;
+		}
+
+		const stored = await this.tokenStore.get(this.tokenKey);
+		if (stored && accessToken === stored.access_token) {
+			await this.tokenStore.delete(this.tokenKey);
+		}
+	}
+}
@@ -0,0 +1,27 @@
+import { AxiosInstance } from "axios";
+import { TokenRefreshEvent } from "../lib/hooks";
+
+export type AuthContext = {
+	// Rate-limited instance of the transport, token requests count against the quota
+	http: AxiosInstance;
+	onTokenRefresh(event: TokenRefreshEvent): Promise<void>;
+};
+
+export interface AuthStrategy {
+	// Reported to hooks and logs, defaults to "app"
+	kind?: "app" | "user";
+	// Identifies the application in the pool state
+	id?: string;
+	// Whose data the tokens see, cached responses are shared within a subject only
+	// Without one, responses are cached per access token
+	cacheSubject?: string;
+	getAccessToken(ctx: AuthContext): Promise<string>;
+	// Called with the token rejected by a 401, before the request is retried
+	invalidate(accessToken: string, ctx: AuthContext): void | Promise<void>;
+}
+
+export { ClientCredentialsAuth } from "./clientCredentials";
+export type { ClientCredentialsAuthConf } from "./clientCredentials";
+export { PasswordAuth } from "./password";
+export type { PasswordAuthConf } from "./password";
+export { StaticTokenAuth } from "./static";
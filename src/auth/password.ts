@@ -0,0 +1,107 @@
+import { Token, tokenSchema } from "../intraV3/schemas";
+import { singleFlight } from "../lib/singleFlight";
+import { MemoryTokenStore, TokenStore, TokenStoreKey } from "../lib/tokenStore";
+import type { AuthContext, AuthStrategy } from "./index";
+
+export type PasswordAuthConf = {
+	client_id: string;
+	client_secret: string;
+	username: string;
+	password: string;
+	token_url: string;
+	tokenStore: TokenStore | null;
+};
+
+export class PasswordAuth implements AuthStrategy {
+	public readonly kind = "app";
+	public readonly id: string;
+	public readonly cacheSubject: string;
+
+	private tokenStore: TokenStore;
+	private tokenKey: TokenStoreKey;
+	private authorization: Token | null;
+	private acquireToken: (ctx: AuthContext) => Promise<Token>;
+
+	constructor(private conf: PasswordAuthConf) {
+		this.id = conf.client_id;
+		this.cacheSubject = `staff:${encodeURIComponent(conf.client_id)}:${encodeURIComponent(conf.username)}`;
+		this.tokenStore = conf.tokenStore ?? new MemoryTokenStore();
+		this.tokenKey = { client: conf.client_id, subject: conf.username };
+		this.authorization = null;
+		// Concurrent requests share a single token request
+		this.acquireToken = singleFlight((ctx: AuthContext) => this.loadToken(ctx));
+	}
+
+	private async generateToken(ctx: AuthContext) {
+		const data =
+			this.authorization && this.isRefreshTokenValid()
+				? new URLSearchParams({
+						grant_type: "refresh_token",
+						refresh_token: this.authorization.refresh_token,
+					})
+				: new URLSearchParams({
+						grant_type: "password",
+						username: this.conf.username,
+						password: this.conf.password,
+					});
+
+		const res = await ctx.http.post(this.conf.token_url, data, {
+			headers: {
+				Authorization: `Basic ${Buffer.from(`${this.conf.client_id}:${this.conf.client_secret}`).toString("base64")}`,
+				"Content-Type": "application/x-www-form-urlencoded",
+			},
+		});
+
+		return tokenSchema.parse(res.data);
+	}
+
+	private isTokenValid(): boolean {
+		return this.authorization !== null && this.authorization.expires_at - 30000 > Date.now();
+	}
+
+	private isRefreshTokenValid(): boolean {
+		return (
+			this.authorization !== null && this.authorization.refresh_expires_at - 30000 > Date.now()
+		);
+	}
+
+	private async loadToken(ctx: AuthContext): Promise<Token> {
+		// Another process may already have stored a valid token or a newer refresh token
+		const stored = await this.tokenStore.get(this.tokenKey);
+		if (stored && stored.refresh_token !== undefined && stored.refresh_expires_at !== undefined) {
+			this.authorization = {
+				access_token: stored.access_token,
+				expires_at: stored.expires_at,
+				refresh_token: stored.refresh_token,
+				refresh_expires_at: stored.refresh_expires_at,
+				token_type: stored.token_type,
+			};
+		}
+
+		if (!this.authorization || !this.isTokenValid()) {
+			this.authorization = await this.generateToken(ctx);
+			await this.tokenStore.set(this.tokenKey, this.authorization);
+			await ctx.onTokenRefresh({ kind: "app", token: this.authorization });
+		}
+		return this.authorization;
+	}
+
+	public async getAccessToken(ctx: AuthContext): Promise<string> {
+		if (this.authorization && this.isTokenValid()) {
+			return this.authorization.access_token;
+		}
+		return (await this.acquireToken(ctx)).access_token;
+	}
+
+	public async invalidate(accessToken: string) {
+		// Only drop the token that was rejected, a newer one may already be in use
+		if (this.authorization && accessToken === this.authorization.access_token) {
+			this.authorization = null;
+		}
+
+		const stored = await this.tokenStore.get(this.tokenKey);
+		if (stored && accessToken === stored.access_token) {
+			await this.tokenStore.delete(this.tokenKey);
+		}
+	}
+}
@@ -0,0 +1,15 @@
+import type { AuthStrategy } from "./index";
+
+// A token obtained elsewhere, requests fail once it is rejected
+export class StaticTokenAuth implements AuthStrategy {
+	constructor(
+		private accessToken: string,
+		public readonly kind: "app" | "user" = "user",
+	) {}
+
+	public async getAccessToken(): Promise<string> {
+		return this.accessToken;
+	}
+
+	public invalidate() {}
+}
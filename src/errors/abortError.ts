@@ -0,0 +1,15 @@
+export class FortytwoIntraClientAbortError extends Error {
+	public reason: unknown;
+
+	constructor(reason: unknown) {
+		super("Request aborted");
+		this.name = "FortytwoIntraClientAbortError";
+		this.reason = reason;
+	}
+}
+
+export function isFortytwoIntraClientAbortError(
+	error: unknown,
+): error is FortytwoIntraClientAbortError {
+	return error instanceof FortytwoIntraClientAbortError;
+}
@@ -1,11 +1,27 @@
 import { AxiosError } from "axios";
+import { getRetryAfter } from "../lib/rateLimiter";
+
+export type HttpErrorContext = {
+	method: string;
+	url: string;
+	query: Record<string, any>;
+	attempts: number;
+};
+
+export type FieldErrors = Record<string, string[]>;
 
 export class FortytwoIntraClientHttpError extends Error {
 	public statusCode: number;
 	public statusText: string;
 	public data: unknown;
+	public method: string | null;
+	public url: string | null;
+	public query: Record<string, any>;
+	public attempts: number;
+	public headers: Record<string, unknown>;
+	public requestId: string | null;
 
-	constructor(error: AxiosError) {
+	constructor(error: AxiosError, context?: HttpErrorContext) {
 		const method = error.config?.method?.toUpperCase() ?? null;
 		const route = error.config?.url ?? null;
 
@@ -20,7 +36,136 @@ export class FortytwoIntraClientHttpError extends Error {
 		this.statusCode = statusCode;
 		this.statusText = statusText;
 		this.data = error.response?.data;
+
+		// Context of the client call, the failing request may be the token request
+		this.method = context?.method ?? method;
+		this.url = context?.url ?? route;
+		this.query = context?.query ?? { ...error.config?.params };
+		this.attempts = context?.attempts ?? 1;
+		this.headers = { ...error.response?.headers };
+
+		const requestId = this.headers["x-request-id"];
+		this.requestId = typeof requestId === "string" ? requestId : null;
+	}
+}
+
+// 401 and 403, the token was rejected or lacks the required scope or role
+export class FortytwoIntraClientAuthError extends FortytwoIntraClientHttpError {
+	constructor(error: AxiosError, context?: HttpErrorContext) {
+		super(error, context);
+		this.name = "FortytwoIntraClientAuthError";
+	}
+}
+
+export class FortytwoIntraClientNotFoundError extends FortytwoIntraClientHttpError {
+	constructor(error: AxiosError, context?: HttpErrorContext) {
+		super(error, context);
+		this.name = "FortytwoIntraClientNotFoundError";
+	}
+}
+
+export class FortytwoIntraClientRateLimitError extends FortytwoIntraClientHttpError {
+	// Milliseconds to wait before retrying, null without a Retry-After header
+	public retryAfter: number | null;
+
+	constructor(error: AxiosError, context?: HttpErrorContext) {
+		super(error, context);
+		this.name = "FortytwoIntraClientRateLimitError";
+		this.retryAfter = getRetryAfter(this.headers);
+	}
+}
+
+// 422, the API refused the submitted fields
+export class FortytwoIntraClientUnprocessableError extends FortytwoIntraClientHttpError {
+	public fieldErrors: FieldErrors;
+
+	constructor(error: AxiosError, context?: HttpErrorContext) {
+		super(error, context);
+		this.name = "FortytwoIntraClientUnprocessableError";
+		this.fieldErrors = getFieldErrors(this.data);
+	}
+}
+
+export class FortytwoIntraClientServerError extends FortytwoIntraClientHttpError {
+	constructor(error: AxiosError, context?: HttpErrorContext) {
+		super(error, context);
+		this.name = "FortytwoIntraClientServerError";
+	}
+}
+
+// No response was received (DNS failure, connection reset, socket timeout...)
+export class FortytwoIntraClientNetworkError extends FortytwoIntraClientHttpError {
+	public code: string | null;
+
+	constructor(error: AxiosError, context?: HttpErrorContext) {
+		super(error, context);
+		this.name = "FortytwoIntraClientNetworkError";
+		const method = error.config?.method?.toUpperCase();
+		const route = error.config?.url;
+		this.message = method && route ? `${method} ${route} - ${error.message}` : error.message;
+		this.code = error.code ?? null;
+	}
+}
+
+function toMessages(value: unknown): string[] | null {
+	if (typeof value === "string") {
+		return [value];
 	}
+	if (Array.isArray(value) && value.every((message) => typeof message === "string")) {
+		return value;
+	}
+	return null;
+}
+
+// Rails style bodies: { errors: { field: [...] } }, { field: [...] } or { errors: [...] }
+function getFieldErrors(data: unknown): FieldErrors {
+	if (!data || typeof data !== "object") {
+		return {};
+	}
+
+	const body = "errors" in data ? data.errors : data;
+	const base = toMessages(body);
+	if (base) {
+		return { base };
+	}
+	if (!body || typeof body !== "object") {
+		return {};
+	}
+
+	const fields: FieldErrors = {};
+	for (const [field, value] of Object.entries(body)) {
+		const messages = toMessages(value);
+		if (messages) {
+			fields[field] = messages;
+		}
+	}
+	return fields;
+}
+
+export function createHttpError(
+	error: AxiosError,
+	context?: HttpErrorContext,
+): FortytwoIntraClientHttpError {
+	const status = error.response?.status;
+	if (status === undefined) {
+		return new FortytwoIntraClientNetworkError(error, context);
+	}
+	if (status === 401 || status === 403) {
+		return new FortytwoIntraClientAuthError(error, context);
+	}
+	if (status === 404) {
+		return new FortytwoIntraClientNotFoundError(error, context);
+	}
+	if (status === 422) {
+		return new FortytwoIntraClientUnprocessableError(error, context);
+	}
+	if (status === 429) {
+		return new FortytwoIntraClientRateLimitError(error, context);
+	}
+	if (status >= 500) {
+		return new FortytwoIntraClientServerError(error, context);
+	}
+	return new FortytwoIntraClientHttpError(error, context);
 }
 
 export function isFortytwoIntraClientHttpError(
@@ -28,3 +173,39 @@ export function isFortytwoIntraClientHttpError(
 ): error is FortytwoIntraClientHttpError {
 	return error instanceof FortytwoIntraClientHttpError;
 }
+
+export function isFortytwoIntraClientAuthError(
+	error: unknown,
+): error is FortytwoIntraClientAuthError {
+	return error instanceof FortytwoIntraClientAuthError;
+}
+
+export function isFortytwoIntraClientNotFoundError(
+	error: unknown,
+): error is FortytwoIntraClientNotFoundError {
+	return error instanceof FortytwoIntraClientNotFoundError;
+}
+
+export function isFortytwoIntraClientRateLimitError(
+	error: unknown,
+): error is FortytwoIntraClientRateLimitError {
+	return error instanceof FortytwoIntraClientRateLimitError;
+}
+
+export function isFortytwoIntraClientUnprocessableError(
+	error: unknown,
+): error is FortytwoIntraClientUnprocessableError {
+	return error instanceof FortytwoIntraClientUnprocessableError;
+}
+
+export function isFortytwoIntraClientServerError(
+	error: unknown,
+): error is FortytwoIntraClientServerError {
+	return error instanceof FortytwoIntraClientServerError;
+}
+
+export function isFortytwoIntraClientNetworkError(
+	error: unknown,
+): error is FortytwoIntraClientNetworkError {
+	return error instanceof FortytwoIntraClientNetworkError;
+}
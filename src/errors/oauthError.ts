@@ -0,0 +1,20 @@
+export class FortytwoIntraClientOAuthError extends Error {
+	public reason: "missing_state" | "state_mismatch";
+
+	constructor(reason: "missing_state" | "state_mismatch") {
+		const message =
+			reason === "missing_state"
+				? "OAuth callback is missing the state parameter"
+				: "OAuth state does not match the expected value";
+
+		super(message);
+		this.name = "FortytwoIntraClientOAuthError";
+		this.reason = reason;
+	}
+}
+
+export function isFortytwoIntraClientOAuthError(
+	error: unknown,
+): error is FortytwoIntraClientOAuthError {
+	return error instanceof FortytwoIntraClientOAuthError;
+}
@@ -0,0 +1,15 @@
+export class FortytwoIntraClientPaginationError extends Error {
+	public url: string;
+
+	constructor(url: string, reason: string) {
+		super(`Incomplete pagination of ${url}: ${reason}`);
+		this.name = "FortytwoIntraClientPaginationError";
+		this.url = url;
+	}
+}
+
+export function isFortytwoIntraClientPaginationError(
+	error: unknown,
+): error is FortytwoIntraClientPaginationError {
+	return error instanceof FortytwoIntraClientPaginationError;
+}
@@ -0,0 +1,15 @@
+export class FortytwoIntraClientQueryError extends Error {
+	public param: string;
+
+	constructor(param: string, reason: string) {
+		super(`Invalid query parameter ${param}: ${reason}`);
+		this.name = "FortytwoIntraClientQueryError";
+		this.param = param;
+	}
+}
+
+export function isFortytwoIntraClientQueryError(
+	error: unknown,
+): error is FortytwoIntraClientQueryError {
+	return error instanceof FortytwoIntraClientQueryError;
+}
@@ -0,0 +1,12 @@
+export class FortytwoIntraClientResumeError extends Error {
+	constructor(reason: string) {
+		super(`Invalid resume token: ${reason}`);
+		this.name = "FortytwoIntraClientResumeError";
+	}
+}
+
+export function isFortytwoIntraClientResumeError(
+	error: unknown,
+): error is FortytwoIntraClientResumeError {
+	return error instanceof FortytwoIntraClientResumeError;
+}
@@ -0,0 +1,15 @@
+export class FortytwoIntraClientTimeoutError extends Error {
+	public timeout: number;
+
+	constructor(timeout: number) {
+		super(`Request timed out after ${timeout}ms`);
+		this.name = "FortytwoIntraClientTimeoutError";
+		this.timeout = timeout;
+	}
+}
+
+export function isFortytwoIntraClientTimeoutError(
+	error: unknown,
+): error is FortytwoIntraClientTimeoutError {
+	return error instanceof FortytwoIntraClientTimeoutError;
+}
@@ -1,14 +1,30 @@
 import { ZodError } from "zod";
 
+export type ValidationLocation = {
+	page: number | null;
+	index: number | null;
+};
+
 export class FortytwoIntraClientValidationError extends Error {
 	public schemaErrors: ZodError;
 	public data: unknown;
+	// Page of a paginated call, and index of the item within it
+	public page: number | null;
+	public index: number | null;
+
+	constructor(schemaErrors: ZodError, data: unknown, location?: Partial<ValidationLocation>) {
+		const page = location?.page ?? null;
+		const index = location?.index ?? null;
+		const at = [page !== null && `page ${page}`, index !== null && `index ${index}`].filter(
+			Boolean,
+		);
 
-	constructor(schemaErrors: ZodError, data: unknown) {
-		super("Schema validation failed");
+		super(`Schema validation failed${at.length ? ` at ${at.join(", ")}` : ""}`);
 		this.name = "FortytwoIntraClientValidationError";
 		this.schemaErrors = schemaErrors;
 		this.data = data;
+		this.page = page;
+		this.index = index;
 	}
 }
 
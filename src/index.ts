@@ -1,423 +1,182 @@
-import axios, { AxiosError, AxiosInstance, AxiosResponse, isAxiosError } from "axios";
-import rateLimit from "axios-rate-limit";
-import z from "zod";
-import { inputOptions, reqOptions } from "./types";
-import { getErrorLogLine, getLogLine } from "./lib/logs";
-import { getLastPage } from "./lib/pagination";
-import { FortytwoIntraClientHttpError } from "./errors/httpError";
-import { FortytwoIntraClientValidationError } from "./errors/validationError";
-
+import { isAxiosError } from "axios";
+import { inputOptions, oauthRequest } from "./types";
+import { generatePkce, generateState, safeCompare } from "./lib/oauth";
+import { TokenStore } from "./lib/tokenStore";
+import { UserToken, userTokenSchema } from "./schemas";
+import { IntraTransport, IntraTransportConf } from "./transport";
+import { AuthStrategy, ClientCredentialsAuth } from "./auth";
+import { FortytwoIntraUserSession } from "./userSession";
+import { FortytwoIntraResource } from "./resources";
+import {
+	campusSchema,
+	cursusSchema,
+	cursusUserSchema,
+	eventSchema,
+	locationSchema,
+	projectsUserSchema,
+	scaleTeamSchema,
+	teamSchema,
+	userSchema,
+} from "./resources/schemas";
+import { FortytwoIntraClientOAuthError } from "./errors/oauthError";
+import { createHttpError } from "./errors/httpError";
+
+export { IntraTransport } from "./transport";
+export type { AppState, IntraTransportConf } from "./transport";
+export { ClientCredentialsAuth, PasswordAuth, StaticTokenAuth } from "./auth";
+export type {
+	AuthContext,
+	AuthStrategy,
+	ClientCredentialsAuthConf,
+	PasswordAuthConf,
+} from "./auth";
 export { FortytwoIntraV3Client } from "./intraV3";
+export { FortytwoIntraUserSession } from "./userSession";
+export { FortytwoIntraLogin } from "./login";
+export { expressLogin } from "./login/express";
+export { FortytwoIntraResource } from "./resources";
+export * from "./resources/schemas";
 
 export * from "./errors/httpError";
 export * from "./errors/validationError";
-
-export interface FortytwoIntraClientConf {
+export * from "./errors/abortError";
+export * from "./errors/timeoutError";
+export * from "./errors/oauthError";
+export * from "./errors/queryError";
+export * from "./errors/resumeError";
+export * from "./errors/paginationError";
+
+export type { Priority, RateLimitQuota, RateLimitState } from "./lib/rateLimiter";
+export type { RetryPolicy } from "./lib/retry";
+export type { PagedResult, PaginationFormat, PaginationMeta } from "./lib/pagination";
+export type { IntraLogger, LogFn, LogRecord, LogRedaction } from "./lib/logs";
+export { prettyLogger } from "./lib/logs";
+export type { HookContext, IntraHooks, TokenRefreshEvent } from "./lib/hooks";
+export type { EndpointMetrics, IntraMetricsConf } from "./lib/metrics";
+export { IntraMetrics } from "./lib/metrics";
+export type { StoredToken, TokenStore, TokenStoreKey } from "./lib/tokenStore";
+export type { UserToken } from "./schemas";
+export type { FortytwoIntraLoginConf, LoginRequest, LoginResponse, LoginResult } from "./login";
+export { FileTokenStore, MemoryTokenStore } from "./lib/tokenStore";
+export type { CacheEntry, CacheStore } from "./lib/cache";
+export type { InvalidHandler, ValidationMode, ValidationResult } from "./lib/validation";
+export type {
+	IntraQuery,
+	QueryFilters,
+	QueryList,
+	QueryPage,
+	QueryRanges,
+	QueryValue,
+	RangeBound,
+} from "./lib/query";
+export { serializeQuery } from "./lib/query";
+export { FileCacheStore, MemoryCacheStore } from "./lib/cache";
+export type { FailedPage, PartialResult } from "./lib/resume";
+export type { Checkpoint, CheckpointStore } from "./lib/checkpointStore";
+export { FileCheckpointStore, MemoryCheckpointStore } from "./lib/checkpointStore";
+
+export interface FortytwoIntraClientConf extends IntraTransportConf {
 	redirect_uri: string | null;
 	base_url: string;
 	token_url: string;
 	oauth_url: string;
 	token_info_url: string;
 	scopes: string[];
-	rateLimitMaxRequests: number;
-	rateLimitPerMilliseconds: number;
-	maxRetry: number;
-	logLine: boolean;
-	errLogBody: boolean;
+	tokenStore: TokenStore | null;
+	// Replaces the client credentials flow, e.g. with tokens from a vault
+	auth: AuthStrategy | null;
+	// Additional applications, app requests are spread across all of them
+	apps: AppCredentials[];
 }
 
-const defaultConf: FortytwoIntraClientConf = {
+export type AppCredentials = {
+	client_id: string;
+	client_secret: string;
+};
+
+const defaultConf: Pick<
+	FortytwoIntraClientConf,
+	| "redirect_uri"
+	| "base_url"
+	| "token_url"
+	| "oauth_url"
+	| "token_info_url"
+	| "scopes"
+	| "tokenStore"
+	| "auth"
+	| "apps"
+> = {
 	redirect_uri: null,
 	base_url: "https://api.intra.42.fr/v2/",
 	token_url: "https://api.intra.42.fr/oauth/token",
 	oauth_url: "https://api.intra.42.fr/oauth/authorize",
 	token_info_url: "https://api.intra.42.fr/oauth/token/info",
 	scopes: ["public"],
-	rateLimitMaxRequests: 2,
-	rateLimitPerMilliseconds: 1200,
-	maxRetry: 5,
-	logLine: true,
-	errLogBody: true,
+	tokenStore: null,
+	auth: null,
+	apps: [],
 };
 
-export class FortytwoIntraClient {
+export class FortytwoIntraClient extends IntraTransport {
 	private redirect_uri: string | null;
-	private base_url: string;
 	private token_url: string;
 	private oauth_url: string;
 	private token_info_url: string;
 	private scopes: string[];
-	private rateLimitMaxRequests: number;
-	private rateLimitPerMilliseconds: number;
-	private axiosInstance: AxiosInstance;
-	private retryOn: number[];
-	private maxRetry: number;
-	private logLine: boolean;
-	private errLogBody: boolean;
 
-	private access_token: string | null;
+	public users: FortytwoIntraResource<typeof userSchema>;
+	public cursusUsers: FortytwoIntraResource<typeof cursusUserSchema>;
+	public projectsUsers: FortytwoIntraResource<typeof projectsUserSchema>;
+	public scaleTeams: FortytwoIntraResource<typeof scaleTeamSchema>;
+	public campus: FortytwoIntraResource<typeof campusSchema>;
+	public locations: FortytwoIntraResource<typeof locationSchema>;
+	public teams: FortytwoIntraResource<typeof teamSchema>;
+	public events: FortytwoIntraResource<typeof eventSchema>;
+	public cursus: FortytwoIntraResource<typeof cursusSchema>;
 
 	constructor(
 		private client_id: string,
 		private client_secret: string,
 		conf: Partial<FortytwoIntraClientConf>,
 	) {
-		const config: FortytwoIntraClientConf = { ...defaultConf, ...conf };
+		const config = { ...defaultConf, ...conf };
+		const appAuth = (credentials: AppCredentials) =>
+			new ClientCredentialsAuth({
+				...credentials,
+				token_url: config.token_url,
+				scopes: config.scopes,
+				tokenStore: config.tokenStore,
+			});
+
+		// The primary application also handles OAuth and user tokens
+		const auth = config.auth ?? appAuth({ client_id, client_secret });
+		super([auth, ...config.apps.map(appAuth)], config);
 
 		this.redirect_uri = config.redirect_uri;
-		this.base_url = config.base_url;
 		this.token_url = config.token_url;
 		this.oauth_url = config.oauth_url;
 		this.token_info_url = config.token_info_url;
 		this.scopes = config.scopes;
 
-		this.rateLimitMaxRequests = config.rateLimitMaxRequests;
-		this.rateLimitPerMilliseconds = config.rateLimitPerMilliseconds;
-
-		// Create axios instance with rate limiting
-		const axiosInstance = axios.create();
-		this.axiosInstance = rateLimit(axiosInstance, {
-			maxRequests: this.rateLimitMaxRequests,
-			perMilliseconds: this.rateLimitPerMilliseconds,
-		});
-
-		this.retryOn = [401, 429, 500];
-		this.maxRetry = config.maxRetry;
-		this.logLine = config.logLine;
-		this.errLogBody = config.errLogBody;
-
-		this.access_token = null;
-	}
-
-	private async generateToken() {
-		const res = await this.axiosInstance.post(this.token_url, {
-			grant_type: "client_credentials",
-			client_id: this.client_id,
-			client_secret: this.client_secret,
-			scope: this.scopes.join(" "),
-		});
-
-		return res.data.access_token;
-	}
-
-	private async fetch(url: URL, options: reqOptions) {
-		const { method, body, query } = options;
-
-		if (!options.token && !this.access_token) {
-			this.access_token = await this.generateToken();
-		}
-
-		// Attach access_token
-		const accessToken = options.token ? options.token.access_token : this.access_token;
-
-		// Extract query parameters from URL and combine with options.query
-		const urlParams: Record<string, any> = {};
-		url.searchParams.forEach((value, key) => {
-			urlParams[key] = value;
-		});
-
-		// Combine URL params with query params (query params take precedence)
-		const combinedParams = { ...urlParams, ...query };
-
-		// Create clean URL without query parameters
-		const cleanUrl = new URL(url);
-		cleanUrl.search = "";
-
-		// Use the rate-limited axios instance
-		return this.axiosInstance.request({
-			method: method.toLowerCase(),
-			url: cleanUrl.toString(),
-			headers: {
-				Authorization: `Bearer ${accessToken}`,
-			},
-			params: combinedParams,
-			data: body ? body : undefined,
-		});
-	}
-
-	private async reqHandler(url: URL, options: reqOptions): Promise<AxiosResponse> {
-		try {
-			const res = await this.fetch(url, options);
-			this.logSuccess(res, options);
-
-			return res;
-		} catch (err) {
-			if (isAxiosError(err)) {
-				this.logError(err, options);
-
-				const { attempt, maxRetry } = options;
-				const status = err.response?.status;
-
-				if (maxRetry > 0 && attempt < maxRetry && status && this.retryOn.includes(status)) {
-					if (status === 401) {
-						this.access_token = null;
-					}
-					options.attempt++;
-					return this.reqHandler(url, options);
-				} else {
-					throw new FortytwoIntraClientHttpError(err);
-				}
-			} else {
-				throw err;
-			}
-		}
-	}
-
-	private logSuccess(res: AxiosResponse, options: reqOptions) {
-		if (!options.logLine) return;
-
-		const line = getLogLine(res, options);
-		console.log(line);
-	}
-
-	private logError(err: AxiosError, options: reqOptions) {
-		if (!options.logLine) return;
-
-		const line = getErrorLogLine(err, options);
-		const body = err.response?.data;
-		const logBody = options.errLogBody && body && Object.keys(body).length;
-		try {
-			console.log(line, logBody ? JSON.stringify(body, null, 2) : "");
-		} catch {
-			console.log(line, logBody ? body : "");
-		}
-	}
-
-	private validate<S extends z.ZodType>(data: any, schema: S): z.infer<S>;
-	private validate<S extends z.ZodType | undefined>(data: any, schema?: S): any;
-	private validate<S extends z.ZodType | undefined>(data: any, schema?: S): any {
-		if (!schema) {
-			return data;
-		}
-
-		try {
-			return schema.parse(data);
-		} catch (err) {
-			if (err instanceof z.ZodError) {
-				throw new FortytwoIntraClientValidationError(err, data);
-			}
-			throw err;
-		}
-	}
-
-	// Public methods
-	public async get(
-		endpoint: URL | string,
-		options?: Omit<inputOptions, "body" | "perPage" | "maxPages">,
-	): Promise<any>;
-	public async get<S extends z.ZodType>(
-		endpoint: URL | string,
-		options: Omit<inputOptions, "body" | "perPage" | "maxPages"> & { schema: S },
-	): Promise<z.infer<S>>;
-	public async get<S extends z.ZodType | undefined = undefined>(
-		endpoint: URL | string,
-		options: Omit<inputOptions, "body" | "perPage" | "maxPages"> & { schema?: S } = {},
-	): Promise<any> {
-		if (endpoint instanceof URL === false) {
-			endpoint = new URL(endpoint, this.base_url);
-		}
-
-		const res = await this.reqHandler(endpoint, {
-			method: "GET",
-			attempt: 0,
-			maxRetry: this.maxRetry,
-			logLine: this.logLine,
-			errLogBody: this.errLogBody,
-			...options,
-		});
-
-		return this.validate(res.data, options.schema);
-	}
-
-	public async post(
-		endpoint: URL | string,
-		options?: Omit<inputOptions, "perPage" | "maxPages">,
-	): Promise<any>;
-	public async post<S extends z.ZodType>(
-		endpoint: URL | string,
-		options: Omit<inputOptions, "perPage" | "maxPages"> & { schema: S },
-	): Promise<z.infer<S>>;
-	public async post<S extends z.ZodType | undefined = undefined>(
-		endpoint: URL | string,
-		options: Omit<inputOptions, "perPage" | "maxPages"> & { schema?: S } = {},
-	) {
-		if (endpoint instanceof URL === false) {
-			endpoint = new URL(endpoint, this.base_url);
-		}
-
-		const res = await this.reqHandler(endpoint, {
-			method: "POST",
-			attempt: 0,
-			maxRetry: this.maxRetry,
-			logLine: this.logLine,
-			errLogBody: this.errLogBody,
-			...options,
-		});
-
-		return this.validate(res.data, options.schema);
-	}
-
-	public async put(
-		endpoint: URL | string,
-		options?: Omit<inputOptions, "perPage" | "maxPages">,
-	): Promise<any>;
-	public async put<S extends z.ZodType>(
-		endpoint: URL | string,
-		options: Omit<inputOptions, "perPage" | "maxPages"> & { schema: S },
-	): Promise<z.infer<S>>;
-	public async put<S extends z.ZodType | undefined = undefined>(
-		endpoint: URL | string,
-		options: Omit<inputOptions, "perPage" | "maxPages"> & { schema?: S } = {},
-	) {
-		if (endpoint instanceof URL === false) {
-			endpoint = new URL(endpoint, this.base_url);
-		}
-
-		const res = await this.reqHandler(endpoint, {
-			method: "PUT",
-			attempt: 0,
-			maxRetry: this.maxRetry,
-			logLine: this.logLine,
-			errLogBody: this.errLogBody,
-			...options,
-		});
-
-		return this.validate(res.data, options.schema);
-	}
-
-	public async patch(
-		endpoint: URL | string,
-		options?: Omit<inputOptions, "perPage" | "maxPages">,
-	): Promise<any>;
-	public async patch<S extends z.ZodType>(
-		endpoint: URL | string,
-		options: Omit<inputOptions, "perPage" | "maxPages"> & { schema: S },
-	): Promise<z.infer<S>>;
-	public async patch<S extends z.ZodType | undefined = undefined>(
-		endpoint: URL | string,
-		options: Omit<inputOptions, "perPage" | "maxPages"> & { schema?: S } = {},
-	) {
-		if (endpoint instanceof URL === false) {
-			endpoint = new URL(endpoint, this.base_url);
-		}
-
-		const res = await this.reqHandler(endpoint, {
-			method: "PATCH",
-			attempt: 0,
-			maxRetry: this.maxRetry,
-			logLine: this.logLine,
-			errLogBody: this.errLogBody,
-			...options,
-		});
-
-		return this.validate(res.data, options.schema);
-	}
-
-	public async delete(
-		endpoint: URL | string,
-		options?: Omit<inputOptions, "perPage" | "maxPages">,
-	): Promise<any>;
-	public async delete<S extends z.ZodType>(
-		endpoint: URL | string,
-		options: Omit<inputOptions, "perPage" | "maxPages"> & { schema: S },
-	): Promise<z.infer<S>>;
-	public async delete<S extends z.ZodType | undefined = undefined>(
-		endpoint: URL | string,
-		options: Omit<inputOptions, "perPage" | "maxPages"> & { schema?: S } = {},
-	) {
-		if (endpoint instanceof URL === false) {
-			endpoint = new URL(endpoint, this.base_url);
-		}
-
-		const res = await this.reqHandler(endpoint, {
-			method: "DELETE",
-			attempt: 0,
-			maxRetry: this.maxRetry,
-			logLine: this.logLine,
-			errLogBody: this.errLogBody,
-			...options,
-		});
-
-		return this.validate(res.data, options.schema);
-	}
-
-	public async getAll(endpoint: URL | string, options?: Omit<inputOptions, "body">): Promise<any>;
-	public async getAll<S extends z.ZodType>(
-		endpoint: URL | string,
-		options: Omit<inputOptions, "body"> & { schema: S },
-	): Promise<z.infer<S>>;
-	public async getAll<S extends z.ZodType | undefined = undefined>(
-		endpoint: URL | string,
-		options: Omit<inputOptions, "body"> & { schema?: S } = {},
-	) {
-		if (endpoint instanceof URL === false) {
-			endpoint = new URL(endpoint, this.base_url);
-		}
-
-		const perPage = options.perPage || 100;
-
-		let url = new URL(endpoint);
-		const firstPage = await this.reqHandler(url, {
-			method: "GET",
-			attempt: 0,
-			currpage: 1,
-			lastPage: Infinity,
-			maxRetry: this.maxRetry,
-			logLine: this.logLine,
-			errLogBody: this.errLogBody,
-			...options,
-			query: {
-				...options.query,
-				page: 1,
-				per_page: perPage,
-			},
-		});
-
-		if (!Array.isArray(firstPage.data)) {
-			return this.validate(firstPage.data, options.schema);
-		}
-
-		let lastPage: number;
-		try {
-			lastPage = Math.min(getLastPage(firstPage.headers["link"]), options.maxPages || Infinity);
-		} catch (err) {
-			return this.validate(firstPage.data, options.schema);
-		}
-
-		const promises = Array.from({ length: lastPage - 1 }, (_, i) => i + 2).map((pageNumber) =>
-			this.reqHandler(url, {
-				method: "GET",
-				attempt: 0,
-				currpage: pageNumber,
-				lastPage: lastPage,
-				maxRetry: this.maxRetry,
-				logLine: this.logLine,
-				errLogBody: this.errLogBody,
-				...options,
-				query: {
-					...options.query,
-					page: pageNumber,
-					per_page: perPage,
-				},
-			}),
-		);
-
-		const otherPages = await Promise.all(promises);
-		const allData = [...firstPage.data, ...otherPages.flatMap((res) => res.data)];
-
-		return this.validate(allData, options.schema);
-	}
-
-	public URL(endpoint: string) {
-		return new URL(endpoint, this.base_url);
+		this.users = new FortytwoIntraResource(this, "users", userSchema);
+		this.cursusUsers = new FortytwoIntraResource(this, "cursus_users", cursusUserSchema);
+		this.projectsUsers = new FortytwoIntraResource(this, "projects_users", projectsUserSchema);
+		this.scaleTeams = new FortytwoIntraResource(this, "scale_teams", scaleTeamSchema);
+		this.campus = new FortytwoIntraResource(this, "campus", campusSchema);
+		this.locations = new FortytwoIntraResource(this, "locations", locationSchema);
+		this.teams = new FortytwoIntraResource(this, "teams", teamSchema);
+		this.events = new FortytwoIntraResource(this, "events", eventSchema);
+		this.cursus = new FortytwoIntraResource(this, "cursus", cursusSchema);
 	}
 
 	public getOAuthUrl(
 		options: {
 			redirect_uri?: string;
 			state?: string;
+			generateState?: boolean;
+			pkce?: boolean;
 		} = {},
-	) {
+	): { url: string } & oauthRequest {
 		const redirectUri = options.redirect_uri || this.redirect_uri;
 		if (!redirectUri) {
 			throw new Error(`Missing redirect_uri parameter`);
@@ -429,24 +188,83 @@ export class FortytwoIntraClient {
 		url.searchParams.set("response_type", "code");
 		url.searchParams.set("scope", this.scopes.join(" "));
 
-		const state = options.state ?? null;
+		const state = options.state ?? (options.generateState ? generateState() : null);
 		if (state !== null) {
 			url.searchParams.set("state", state);
 		}
 
-		return { url: url.toString(), state };
+		let codeVerifier: string | null = null;
+		if (options.pkce) {
+			const pkce = generatePkce();
+			codeVerifier = pkce.code_verifier;
+			url.searchParams.set("code_challenge", pkce.code_challenge);
+			url.searchParams.set("code_challenge_method", pkce.code_challenge_method);
+		}
+
+		return { url: url.toString(), redirect_uri: redirectUri, state, code_verifier: codeVerifier };
+	}
+
+	// User token requests are not sent through the transport, their failures are wrapped here
+	private async requestUserToken(body: Record<string, unknown>): Promise<UserToken> {
+		try {
+			const res = await this.axiosInstance.post(this.token_url, body);
+			return userTokenSchema.parse(res.data);
+		} catch (err) {
+			if (isAxiosError(err)) {
+				throw createHttpError(err, { method: "POST", url: this.token_url, query: {}, attempts: 1 });
+			}
+			throw err;
+		}
 	}
 
-	public async exchangeOAuthCode(code: string, redirect_uri?: string) {
-		const res = await this.axiosInstance.post(this.token_url, {
+	public async exchangeOAuthCode(code: string, redirect_uri?: string, code_verifier?: string) {
+		return this.requestUserToken({
 			grant_type: "authorization_code",
 			client_id: this.client_id,
 			client_secret: this.client_secret,
 			redirect_uri: redirect_uri ? redirect_uri : this.redirect_uri,
 			code: code,
+			code_verifier: code_verifier,
+		});
+	}
+
+	public async completeOAuth(options: {
+		code: string;
+		state?: string | null;
+		expected: oauthRequest;
+	}): Promise<UserToken> {
+		const { code, state, expected } = options;
+
+		if (expected.state !== null) {
+			if (!state) {
+				throw new FortytwoIntraClientOAuthError("missing_state");
+			}
+			if (!safeCompare(state, expected.state)) {
+				throw new FortytwoIntraClientOAuthError("state_mismatch");
+			}
+		}
+
+		return this.exchangeOAuthCode(code, expected.redirect_uri, expected.code_verifier ?? undefined);
+	}
+
+	public async refreshUserToken(token: UserToken | string): Promise<UserToken> {
+		const refreshToken = typeof token === "string" ? token : token.refresh_token;
+		if (!refreshToken) {
+			throw new Error(`Missing refresh_token`);
+		}
+
+		const refreshed = await this.requestUserToken({
+			grant_type: "refresh_token",
+			client_id: this.client_id,
+			client_secret: this.client_secret,
+			refresh_token: refreshToken,
 		});
+		await this.hooks.onTokenRefresh({ kind: "user", token: refreshed });
+		return refreshed;
+	}
 
-		return res.data;
+	public createUserSession(token: UserToken) {
+		return new FortytwoIntraUserSession(this, token);
 	}
 
 	public async tokenInfos(options: Omit<inputOptions, "body" | "perPage" | "maxPages"> = {}) {
@@ -0,0 +1,49 @@
+import { FortytwoIntraClientAbortError } from "../errors/abortError";
+import { FortytwoIntraClientTimeoutError } from "../errors/timeoutError";
+
+// Signal of a single call combining the caller's signal and a deadline, `clear` must be called once it settles
+export function withDeadline(signal: AbortSignal | undefined, timeout: number | undefined) {
+	if (!signal && !timeout) {
+		return { signal: undefined, clear: () => {} };
+	}
+
+	const sources = signal ? [signal] : [];
+	let timer: NodeJS.Timeout | null = null;
+	if (timeout) {
+		const controller = new AbortController();
+		timer = setTimeout(
+			() => controller.abort(new FortytwoIntraClientTimeoutError(timeout)),
+			timeout,
+		);
+		sources.push(controller.signal);
+	}
+
+	return {
+		signal: AbortSignal.any(sources),
+		clear: () => {
+			if (timer) clearTimeout(timer);
+		},
+	};
+}
+
+export function getAbortError(reason: unknown) {
+	return reason instanceof FortytwoIntraClientTimeoutError
+		? reason
+		: new FortytwoIntraClientAbortError(reason);
+}
+
+// Stops waiting on a shared promise without cancelling it for the others
+export function abortable<T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+	if (!signal) {
+		return promise;
+	}
+	if (signal.aborted) {
+		return Promise.reject(signal.reason);
+	}
+
+	return new Promise((resolve, reject) => {
+		const onAbort = () => reject(signal.reason);
+		signal.addEventListener("abort", onAbort, { once: true });
+		promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+	});
+}
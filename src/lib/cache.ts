@@ -0,0 +1,135 @@
+import { createHash } from "crypto";
+import { readdir, rm } from "fs/promises";
+import { join } from "path";
+import z from "zod";
+import { readJsonFile, writeJsonFile } from "./jsonFile";
+
+export const cacheEntrySchema = z.object({
+	status: z.number(),
+	data: z.unknown(),
+	headers: z.record(z.string(), z.any()),
+	expires_at: z.number(),
+	etag: z.string().nullable(),
+	last_modified: z.string().nullable(),
+});
+
+export type CacheEntry = z.infer<typeof cacheEntrySchema>;
+
+export interface CacheStore {
+	get(key: string): Promise<CacheEntry | null>;
+	set(key: string, entry: CacheEntry): Promise<void>;
+	delete(key: string): Promise<void>;
+	keys(): Promise<string[]>;
+}
+
+// Least recently used entries are evicted past maxEntries
+export class MemoryCacheStore implements CacheStore {
+	private entries: Map<string, CacheEntry>;
+
+	constructor(private maxEntries = 1000) {
+		this.entries = new Map();
+	}
+
+	public async get(key: string) {
+		const entry = this.entries.get(key);
+		if (!entry) {
+			return null;
+		}
+
+		// Move the entry to the end of the insertion order
+		this.entries.delete(key);
+		this.entries.set(key, entry);
+		return entry;
+	}
+
+	public async set(key: string, entry: CacheEntry) {
+		this.entries.delete(key);
+		this.entries.set(key, entry);
+
+		while (this.entries.size > this.maxEntries) {
+			this.entries.delete(this.entries.keys().next().value!);
+		}
+	}
+
+	public async delete(key: string) {
+		this.entries.delete(key);
+	}
+
+	public async keys() {
+		return [...this.entries.keys()];
+	}
+}
+
+// One JSON file per entry in the given directory
+const cacheFileSchema = z.object({ key: z.string(), entry: cacheEntrySchema });
+
+export class FileCacheStore implements CacheStore {
+	constructor(private directory: string) {}
+
+	private getPath(key: string) {
+		const name = createHash("sha256").update(key).digest("hex");
+		return join(this.directory, `${name}.json`);
+	}
+
+	private async read(path: string): Promise<{ key: string; entry: CacheEntry } | null> {
+		const file = cacheFileSchema.safeParse(await readJsonFile(path));
+		return file.success ? file.data : null;
+	}
+
+	public async get(key: string) {
+		const file = await this.read(this.getPath(key));
+		return file && file.key === key ? file.entry : null;
+	}
+
+	public async set(key: string, entry: CacheEntry) {
+		await writeJsonFile(this.getPath(key), { key, entry }, { mode: 0o600 });
+	}
+
+	public async delete(key: string) {
+		await rm(this.getPath(key), { force: true });
+	}
+
+	public async keys() {
+		let names: string[];
+		try {
+			names = await readdir(this.directory);
+		} catch (err) {
+			if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+				return [];
+			}
+			throw err;
+		}
+
+		const keys: string[] = [];
+		for (const name of names.filter((name) => name.endsWith(".json"))) {
+			const file = await this.read(join(this.directory, name));
+			if (file) {
+				keys.push(file.key);
+			}
+		}
+		return keys;
+	}
+}
+
+export function getCacheKey(subject: string, url: URL, query: Record<string, any>) {
+	// Sorted so the same query always maps to the same entry
+	const params = Object.entries(query)
+		.filter(([, value]) => value !== undefined)
+		.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+		.map(([key, value]) => [key, Array.isArray(value) ? value.join(",") : String(value)]);
+
+	const keyUrl = new URL(url);
+	keyUrl.search = new URLSearchParams(params).toString();
+	return `${subject} ${keyUrl.toString()}`;
+}
+
+// Whether a key belongs to the endpoint, its sub-paths included
+export function matchesCacheKey(key: string, endpoint: URL) {
+	const url = new URL(key.slice(key.indexOf(" ") + 1));
+	if (url.origin !== endpoint.origin) {
+		return false;
+	}
+
+	const path = endpoint.pathname.replace(/\/$/, "");
+	return url.pathname === path || url.pathname.startsWith(`${path}/`);
+}
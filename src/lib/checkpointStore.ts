@@ -0,0 +1,63 @@
+import z from "zod";
+import { JsonRecordFile } from "./jsonFile";
+
+export const checkpointSchema = z.object({
+	// High-water mark: the updated_at of the last synced item
+	updated_at: z.string(),
+	// Items already synced at exactly that updated_at
+	ids: z.array(z.union([z.number(), z.string()])),
+});
+
+export type Checkpoint = z.infer<typeof checkpointSchema>;
+
+export interface CheckpointStore {
+	get(key: string): Promise<Checkpoint | null>;
+	set(key: string, checkpoint: Checkpoint): Promise<void>;
+	delete(key: string): Promise<void>;
+}
+
+export class MemoryCheckpointStore implements CheckpointStore {
+	private checkpoints: Map<string, Checkpoint>;
+
+	constructor() {
+		this.checkpoints = new Map();
+	}
+
+	public async get(key: string) {
+		return this.checkpoints.get(key) ?? null;
+	}
+
+	public async set(key: string, checkpoint: Checkpoint) {
+		this.checkpoints.set(key, checkpoint);
+	}
+
+	public async delete(key: string) {
+		this.checkpoints.delete(key);
+	}
+}
+
+export class FileCheckpointStore implements CheckpointStore {
+	private file: JsonRecordFile;
+
+	constructor(path: string) {
+		this.file = new JsonRecordFile(path, { space: 2 });
+	}
+
+	public async get(key: string) {
+		const checkpoints = await this.file.read();
+		const result = checkpointSchema.safeParse(checkpoints[key]);
+		return result.success ? result.data : null;
+	}
+
+	public set(key: string, checkpoint: Checkpoint) {
+		return this.file.update((checkpoints) => {
+			checkpoints[key] = checkpoint;
+		});
+	}
+
+	public delete(key: string) {
+		return this.file.update((checkpoints) => {
+			delete checkpoints[key];
+		});
+	}
+}
@@ -0,0 +1,78 @@
+import { AxiosError, AxiosResponse } from "axios";
+import { Method } from "../types";
+import { StoredToken } from "./tokenStore";
+import { UserToken } from "../schemas";
+
+export type HookContext = {
+	method: Method;
+	url: URL;
+	query: Record<string, any>;
+	headers: Record<string, string>;
+	attempt: number;
+	tokenKind: "app" | "user";
+	// Free storage shared by the hooks of a single attempt
+	state: Record<string, unknown>;
+};
+
+export type TokenRefreshEvent =
+	| { kind: "app"; token: StoredToken }
+	| { kind: "user"; token: UserToken };
+
+type MaybePromise<T> = T | Promise<T>;
+
+export interface IntraHooks {
+	// Called before each attempt, headers and query can be modified
+	beforeRequest?(ctx: HookContext): MaybePromise<void>;
+	afterResponse?(ctx: HookContext, res: AxiosResponse): MaybePromise<void>;
+	onRetry?(ctx: HookContext, err: AxiosError, delay: number): MaybePromise<void>;
+	// Returning an error replaces the one thrown to the caller
+	onError?(ctx: HookContext, err: unknown): MaybePromise<unknown | void>;
+	onTokenRefresh?(event: TokenRefreshEvent): MaybePromise<void>;
+}
+
+export class HookRunner {
+	private hooks: IntraHooks[];
+
+	constructor(hooks: IntraHooks[]) {
+		this.hooks = [...hooks];
+	}
+
+	public use(hooks: IntraHooks) {
+		this.hooks.push(hooks);
+	}
+
+	public async beforeRequest(ctx: HookContext) {
+		for (const hooks of this.hooks) {
+			await hooks.beforeRequest?.(ctx);
+		}
+	}
+
+	public async afterResponse(ctx: HookContext, res: AxiosResponse) {
+		for (const hooks of this.hooks) {
+			await hooks.afterResponse?.(ctx, res);
+		}
+	}
+
+	public async onRetry(ctx: HookContext, err: AxiosError, delay: number) {
+		for (const hooks of this.hooks) {
+			await hooks.onRetry?.(ctx, err, delay);
+		}
+	}
+
+	public async onError(ctx: HookContext, err: unknown) {
+		let error = err;
+		for (const hooks of this.hooks) {
+			const replaced = await hooks.onError?.(ctx, error);
+			if (replaced !== undefined) {
+				error = replaced;
+			}
+		}
+		return error;
+	}
+
+	public async onTokenRefresh(event: TokenRefreshEvent) {
+		for (const hooks of this.hooks) {
+			await hooks.onTokenRefresh?.(event);
+		}
+	}
+}
@@ -0,0 +1,84 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { dirname, resolve } from "path";
+
+type WriteOptions = {
+	// File permissions, e.g. 0o600 for secrets
+	mode?: number;
+	// Indentation of the JSON, compact when omitted
+	space?: number;
+};
+
+// Parsed content of a JSON file, null when it is missing or not valid JSON
+export async function readJsonFile(path: string): Promise<unknown> {
+	let content: string;
+	try {
+		content = await readFile(path, "utf8");
+	} catch (err) {
+		if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+			return null;
+		}
+		throw err;
+	}
+
+	try {
+		return JSON.parse(content);
+	} catch {
+		return null;
+	}
+}
+
+// Numbers the temporary files, concurrent writes to one path must not share one
+let writes = 0;
+
+// Pending read-modify-write cycles by file, shared by every instance in this process
+const queues = new Map<string, Promise<unknown>>();
+
+export async function writeJsonFile(path: string, data: unknown, options: WriteOptions = {}) {
+	// Write to a temporary file then rename so readers never see a partial file
+	const tmp = `${path}.${process.pid}.${writes++}.tmp`;
+	await mkdir(dirname(path), { recursive: true });
+	await writeFile(tmp, JSON.stringify(data, null, options.space), { mode: options.mode });
+	await rename(tmp, path);
+}
+
+// A JSON object kept in a single file, e.g. tokens or checkpoints by key
+export class JsonRecordFile {
+	private path: string;
+
+	constructor(
+		path: string,
+		private options: WriteOptions = {},
+	) {
+		this.path = resolve(path);
+	}
+
+	// Serializes read-modify-write cycles within this process, across instances on the same file
+	private get queue() {
+		return queues.get(this.path) ?? Promise.resolve();
+	}
+
+	private async load(): Promise<Record<string, unknown>> {
+		const records = await readJsonFile(this.path);
+		return records && typeof records === "object" ? (records as Record<string, unknown>) : {};
+	}
+
+	public async read() {
+		await this.queue;
+		return this.load();
+	}
+
+	public update(fn: (records: Record<string, unknown>) => void): Promise<void> {
+		const next = this.queue.then(async () => {
+			const records = await this.load();
+			fn(records);
+			await writeJsonFile(this.path, records, this.options);
+		});
+		const settled = next.catch(() => {});
+		queues.set(this.path, settled);
+		// The last cycle of a file drops its entry so the map does not grow with every path
+		settled.then(() => {
+			if (queues.get(this.path) === settled) queues.delete(this.path);
+		});
+		return next;
+	}
+}
@@ -1,4 +1,4 @@
-import { reqOptions } from "../types";
+import { Method, reqOptions } from "../types";
 import { AxiosResponse, AxiosError } from "axios";
 import { inspect } from "util";
 
@@ -6,6 +6,132 @@ const green = "\x1b[42m";
 const red = "\x1b[41m";
 const reset = "\x1b[0m";
 
+const REDACTED = "[REDACTED]";
+
+export type LogRecord = {
+	method: Method;
+	path: string;
+	query: Record<string, any>;
+	status: number | null;
+	duration: number;
+	attempt: number;
+	maxRetry: number;
+	page: { current: number; last: number | null } | null;
+	tokenKind: "app" | "user";
+	retrying?: boolean;
+	error?: string;
+	body?: unknown;
+	headers?: Record<string, unknown>;
+};
+
+export type LogFn = (record: LogRecord, message: string) => void;
+
+export interface IntraLogger {
+	debug?: LogFn;
+	info: LogFn;
+	warn: LogFn;
+	error: LogFn;
+}
+
+export type LogRedaction = {
+	// Keys replaced in error bodies, at any depth
+	bodyKeys: string[];
+	headers: string[];
+};
+
+export const defaultLogRedaction: LogRedaction = {
+	bodyKeys: ["access_token", "refresh_token", "client_secret", "password", "secret", "code"],
+	headers: ["authorization", "cookie", "set-cookie"],
+};
+
+export function redactBody(body: unknown, keys: string[]): unknown {
+	if (Array.isArray(body)) {
+		return body.map((item) => redactBody(item, keys));
+	}
+	if (body && typeof body === "object") {
+		return Object.fromEntries(
+			Object.entries(body).map(([key, value]) => [
+				key,
+				keys.includes(key) ? REDACTED : redactBody(value, keys),
+			]),
+		);
+	}
+	return body;
+}
+
+function redactHeaders(headers: Record<string, unknown>, names: string[]) {
+	return Object.fromEntries(
+		Object.entries(headers).map(([name, value]) => [
+			name,
+			names.includes(name.toLowerCase()) ? REDACTED : value,
+		]),
+	);
+}
+
+function getPath(url: string | undefined) {
+	return url ? new URL(url).pathname : "";
+}
+
+function getPage(options: reqOptions): LogRecord["page"] {
+	if (!options.currpage) return null;
+
+	const last = options.lastPage === undefined || options.lastPage === Infinity;
+	return { current: options.currpage, last: last ? null : (options.lastPage as number) };
+}
+
+export function getLogRecord(
+	res: AxiosResponse,
+	options: reqOptions,
+	duration: number,
+	tokenKind: LogRecord["tokenKind"],
+): LogRecord {
+	return {
+		method: options.method,
+		path: getPath(res.config?.url),
+		query: res.config?.params || {},
+		status: res.status,
+		duration,
+		attempt: options.attempt,
+		maxRetry: options.maxRetry,
+		page: getPage(options),
+		tokenKind,
+	};
+}
+
+export function getErrorLogRecord(
+	err: AxiosError,
+	options: reqOptions,
+	duration: number,
+	retrying: boolean,
+	redaction: LogRedaction,
+	tokenKind: LogRecord["tokenKind"],
+): LogRecord {
+	const record: LogRecord = {
+		method: options.method,
+		path: getPath(err.config?.url),
+		query: err.config?.params || {},
+		status: err.response?.status ?? null,
+		duration,
+		attempt: options.attempt,
+		maxRetry: options.maxRetry,
+		page: getPage(options),
+		tokenKind,
+		retrying,
+		error: err.message,
+	};
+
+	if (err.response) {
+		record.headers = redactHeaders({ ...err.response.headers }, redaction.headers);
+
+		const body = err.response.data;
+		if (options.errLogBody && body && typeof body === "object" && Object.keys(body).length) {
+			record.body = redactBody(body, redaction.bodyKeys);
+		}
+	}
+
+	return record;
+}
+
 function formatQueryParams(params: Record<string, any>): string {
 	const { per_page, page, ...filteredParams } = params;
 	const keys = Object.keys(filteredParams);
@@ -20,53 +146,49 @@ function formatQueryParams(params: Record<string, any>): string {
 	});
 }
 
-export function getLogLine(res: AxiosResponse, options: reqOptions) {
+export function getLogLine(record: LogRecord) {
 	const tokens: string[] = [];
-	const queryParams = res.config?.params || {};
+	const isError = record.error !== undefined;
 
-	tokens.push(`${green}${res.status}${reset}`);
-	tokens.push(options.method.padEnd(6, " "));
+	tokens.push(`${isError ? red : green}${record.status ?? "ERR"}${reset}`);
+	tokens.push(record.method.padEnd(6, " "));
 
 	// Add the base URL path
-	if (res.config?.url) {
-		const url = new URL(res.config.url);
-		tokens.push(url.pathname);
+	if (record.path) {
+		tokens.push(record.path);
 	}
 
 	// Add query parameters
-	const formattedParams = formatQueryParams(queryParams);
+	const formattedParams = formatQueryParams(record.query);
 	if (formattedParams) {
 		tokens.push(formattedParams);
 	}
 
 	// Add pagination info
-	if (options.currpage) {
-		tokens.push(
-			`| ${options.currpage}/${options.lastPage === Infinity ? "..." : options.lastPage}`,
-		);
+	if (!isError && record.page) {
+		tokens.push(`| ${record.page.current}/${record.page.last ?? "..."}`);
 	}
 
 	return tokens.join(" ");
 }
 
-export function getErrorLogLine(err: AxiosError, options: reqOptions) {
-	const tokens: string[] = [];
-	const queryParams = err.config?.params || {};
-
-	tokens.push(`${red}${err.status}${reset}`);
-	tokens.push(options.method.padEnd(6, " "));
-
-	// Add the base URL path
-	if (err.config?.url) {
-		const url = new URL(err.config.url);
-		tokens.push(url.pathname);
+function prettyLog(record: LogRecord) {
+	const line = getLogLine(record);
+	if (record.error === undefined) {
+		console.log(line);
+		return;
 	}
 
-	// Add query parameters
-	const formattedParams = formatQueryParams(queryParams);
-	if (formattedParams) {
-		tokens.push(formattedParams);
+	try {
+		console.log(line, record.body !== undefined ? JSON.stringify(record.body, null, 2) : "");
+	} catch {
+		console.log(line, record.body ?? "");
 	}
-
-	return tokens.join(" ");
 }
+
+// Default logger, prints the colored request lines
+export const prettyLogger: IntraLogger = {
+	info: prettyLog,
+	warn: prettyLog,
+	error: prettyLog,
+};
@@ -0,0 +1,184 @@
+import { AxiosError, AxiosResponse } from "axios";
+import { HookContext, IntraHooks } from "./hooks";
+import { FortytwoIntraClientHttpError } from "../errors/httpError";
+import { FortytwoIntraClientAbortError } from "../errors/abortError";
+import { FortytwoIntraClientTimeoutError } from "../errors/timeoutError";
+
+export type EndpointMetrics = {
+	method: string;
+	endpoint: string;
+	requests: number;
+	errors: number;
+	retries: number;
+	rateLimited: number;
+	// Requests cancelled or timed out, not counted as requests or errors
+	aborted: number;
+	statuses: Record<string, number>;
+	latency: {
+		count: number;
+		sum: number;
+		// Cumulative counts per upper bound in seconds, like a Prometheus histogram
+		buckets: Array<{ le: number; count: number }>;
+	};
+};
+
+export type IntraMetricsConf = {
+	buckets: number[];
+	normalize: (path: string) => string;
+	prefix: string;
+};
+
+const defaultConf: IntraMetricsConf = {
+	buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+	// Numeric ids are collapsed so each endpoint gets a single series
+	normalize: (path) => path.replace(/\/\d+(?=\/|$)/g, "/:id"),
+	prefix: "fortytwo_intra",
+};
+
+function escapeLabel(value: string) {
+	return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+export class IntraMetrics implements IntraHooks {
+	private conf: IntraMetricsConf;
+	private endpoints: Map<string, EndpointMetrics>;
+
+	constructor(conf: Partial<IntraMetricsConf> = {}) {
+		this.conf = { ...defaultConf, ...conf };
+		this.endpoints = new Map();
+	}
+
+	private get(ctx: HookContext) {
+		const endpoint = this.conf.normalize(ctx.url.pathname);
+		const key = `${ctx.method} ${endpoint}`;
+
+		let metrics = this.endpoints.get(key);
+		if (!metrics) {
+			metrics = {
+				method: ctx.method,
+				endpoint,
+				requests: 0,
+				errors: 0,
+				retries: 0,
+				rateLimited: 0,
+				aborted: 0,
+				statuses: {},
+				latency: {
+					count: 0,
+					sum: 0,
+					buckets: this.conf.buckets.map((le) => ({ le, count: 0 })),
+				},
+			};
+			this.endpoints.set(key, metrics);
+		}
+		return metrics;
+	}
+
+	private record(ctx: HookContext, status: number | undefined) {
+		const metrics = this.get(ctx);
+		metrics.requests++;
+
+		const label = status ? String(status) : "network_error";
+		metrics.statuses[label] = (metrics.statuses[label] ?? 0) + 1;
+		if (status === 429) {
+			metrics.rateLimited++;
+		}
+
+		const startedAt = ctx.state.metricsStartedAt;
+		if (typeof startedAt === "number") {
+			const seconds = (Date.now() - startedAt) / 1000;
+			metrics.latency.count++;
+			metrics.latency.sum += seconds;
+			for (const bucket of metrics.latency.buckets) {
+				if (seconds <= bucket.le) {
+					bucket.count++;
+				}
+			}
+		}
+		return metrics;
+	}
+
+	public beforeRequest(ctx: HookContext) {
+		ctx.state.metricsStartedAt = Date.now();
+	}
+
+	public afterResponse(ctx: HookContext, res: AxiosResponse) {
+		this.record(ctx, res.status);
+	}
+
+	public onRetry(ctx: HookContext, err: AxiosError) {
+		const metrics = this.record(ctx, err.response?.status);
+		metrics.retries++;
+	}
+
+	public onError(ctx: HookContext, err: unknown) {
+		// Failures before the request was sent (e.g. token errors) have no start time
+		if (typeof ctx.state.metricsStartedAt !== "number") return;
+
+		// The caller gave up, e.g. an early exit from paginate, the API did not fail
+		if (
+			err instanceof FortytwoIntraClientAbortError ||
+			err instanceof FortytwoIntraClientTimeoutError
+		) {
+			this.get(ctx).aborted++;
+			return;
+		}
+
+		// Network errors have a NaN status, recorded as network_error
+		const status = err instanceof FortytwoIntraClientHttpError ? err.statusCode : undefined;
+		const metrics = this.record(ctx, status || undefined);
+		metrics.errors++;
+	}
+
+	public snapshot(): EndpointMetrics[] {
+		return [...this.endpoints.values()].map((metrics) => structuredClone(metrics));
+	}
+
+	public reset() {
+		this.endpoints.clear();
+	}
+
+	public toPrometheus(): string {
+		const { prefix } = this.conf;
+		const lines: string[] = [];
+		const all = [...this.endpoints.values()];
+		const labels = (m: EndpointMetrics) =>
+			`method="${escapeLabel(m.method)}",endpoint="${escapeLabel(m.endpoint)}"`;
+
+		lines.push(`# HELP ${prefix}_requests_total Requests sent to the 42 API, including retries.`);
+		lines.push(`# TYPE ${prefix}_requests_total counter`);
+		for (const m of all) {
+			for (const [status, count] of Object.entries(m.statuses)) {
+				lines.push(`${prefix}_requests_total{${labels(m)},status="${status}"} ${count}`);
+			}
+		}
+
+		const counters: Array<[string, string, (m: EndpointMetrics) => number]> = [
+			["retries_total", "Requests retried after a failure.", (m) => m.retries],
+			["rate_limited_total", "Responses with status 429.", (m) => m.rateLimited],
+			["errors_total", "Requests that failed after all retries.", (m) => m.errors],
+			["aborted_total", "Requests cancelled or timed out by the caller.", (m) => m.aborted],
+		];
+		for (const [name, help, value] of counters) {
+			lines.push(`# HELP ${prefix}_${name} ${help}`);
+			lines.push(`# TYPE ${prefix}_${name} counter`);
+			for (const m of all) {
+				lines.push(`${prefix}_${name}{${labels(m)}} ${value(m)}`);
+			}
+		}
+
+		const histogram = `${prefix}_request_duration_seconds`;
+		lines.push(`# HELP ${histogram} Request latency, including time spent in the rate limiter.`);
+		lines.push(`# TYPE ${histogram} histogram`);
+		for (const m of all) {
+			for (const { le, count } of m.latency.buckets) {
+				lines.push(`${histogram}_bucket{${labels(m)},le="${le}"} ${count}`);
+			}
+			lines.push(`${histogram}_bucket{${labels(m)},le="+Inf"} ${m.latency.count}`);
+			lines.push(`${histogram}_sum{${labels(m)}} ${m.latency.sum}`);
+			lines.push(`${histogram}_count{${labels(m)}} ${m.latency.count}`);
+		}
+
+		return lines.join("\n") + "\n";
+	}
+}
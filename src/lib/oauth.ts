@@ -0,0 +1,19 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+
+export function generateState() {
+	return randomBytes(32).toString("base64url");
+}
+
+export function generatePkce() {
+	const verifier = randomBytes(32).toString("base64url");
+	const challenge = createHash("sha256").update(verifier).digest("base64url");
+
+	return { code_verifier: verifier, code_challenge: challenge, code_challenge_method: "S256" };
+}
+
+export function safeCompare(a: string, b: string) {
+	const bufA = Buffer.from(a);
+	const bufB = Buffer.from(b);
+
+	return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
@@ -1,9 +1,10 @@
-export function getLastPage(header: string | undefined) {
+// Links of the Link header by rel, e.g. next and last
+export function getPageLinks(header: string | undefined): Record<string, string> {
 	if (!header) {
-		throw Error("No pagination link header");
+		return {};
 	}
 
-	const paginationlinks = header.split(",").reduce<Record<string, string>>((links, part) => {
+	return header.split(",").reduce<Record<string, string>>((links, part) => {
 		const match = part.match(/<([^>]+)>\s*;\s*rel="([^"]+)"/);
 		if (match) {
 			const url = match[1];
@@ -12,17 +13,77 @@ export function getLastPage(header: string | undefined) {
 		}
 		return links;
 	}, {});
+}
 
+// Page of the rel="last" link, null when the header has none
+export function getLastPage(header: string | undefined, pageParam = "page") {
+	const paginationlinks = getPageLinks(header);
 	if (!paginationlinks.last) {
-		throw Error("Missing last page link");
+		return null;
 	}
+
 	const lastPageUrl = new URL(paginationlinks.last);
-	const rawLastPage = lastPageUrl.searchParams.get("page");
+	const rawLastPage = lastPageUrl.searchParams.get(pageParam);
 	const lastPage = rawLastPage ? parseInt(rawLastPage, 10) : undefined;
 
 	if (!lastPage || isNaN(lastPage)) {
-		throw Error("Invalid last page link");
+		return null;
 	}
 
 	return lastPage;
 }
+
+export type PaginationFormat = {
+	pageParam: string;
+	perPageParam: string;
+	firstPage: number;
+	// Dot path to the items in the body, null when the body is the list itself
+	itemsPath: string | null;
+	// Dot path to the total number of items in the body
+	totalPath: string | null;
+	// Header holding the total number of items, takes precedence over totalPath
+	totalHeader: string | null;
+	// Header holding the page size applied by the server, which may cap perPage
+	perPageHeader: string | null;
+	// Read the last and next pages from the rel="last" and rel="next" links of the Link header
+	linkHeader: boolean;
+};
+
+export type PaginationMeta = {
+	// Total number of items announced by the server, null when unknown
+	total: number | null;
+	pagesFetched: number;
+};
+
+export type PagedResult<T> = { data: T[]; pagination: PaginationMeta };
+
+function getHeaderNumber(headers: Record<string, any>, header: string | null) {
+	const value = header ? parseInt(headers[header.toLowerCase()], 10) : NaN;
+	return isNaN(value) ? null : value;
+}
+
+function getPath(data: unknown, path: string): unknown {
+	return path
+		.split(".")
+		.reduce<any>((value, key) => (value == null ? undefined : value[key]), data);
+}
+
+export function getPageItems(
+	data: unknown,
+	headers: Record<string, any>,
+	format: PaginationFormat,
+): { items: unknown[]; total: number | null; perPage: number | null } | null {
+	const items = format.itemsPath ? getPath(data, format.itemsPath) : data;
+	if (!Array.isArray(items)) {
+		return null;
+	}
+
+	let total = getHeaderNumber(headers, format.totalHeader);
+	if (total === null && format.totalPath) {
+		const value = Number(getPath(data, format.totalPath));
+		total = isNaN(value) ? null : value;
+	}
+
+	const perPage = getHeaderNumber(headers, format.perPageHeader);
+	return { items, total, perPage: perPage && perPage > 0 ? perPage : null };
+}
@@ -0,0 +1,163 @@
+import { FortytwoIntraClientQueryError } from "../errors/queryError";
+
+export type QueryValue = string | number | boolean | Date;
+export type QueryList = QueryValue | QueryValue[];
+export type RangeBound = string | number | Date;
+
+export type QueryFilters = Record<string, QueryList>;
+export type QueryRanges = Record<string, [RangeBound, RangeBound]>;
+export type QueryPage = { number?: number; size?: number };
+
+export type IntraQuery = {
+	// filter[field]=a,b
+	filter?: QueryFilters;
+	// range[field]=min,max
+	range?: QueryRanges;
+	// sort=-created_at,login, a leading dash sorts descending
+	sort?: string | string[];
+	// page=2, or page[number]=2&page[size]=100
+	page?: number | QueryPage;
+	[param: string]: QueryList | QueryFilters | QueryRanges | QueryPage | undefined;
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return (
+		typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Date)
+	);
+}
+
+function formatValue(param: string, value: unknown): string {
+	if (value instanceof Date) {
+		if (isNaN(value.getTime())) {
+			throw new FortytwoIntraClientQueryError(param, "invalid date");
+		}
+		return value.toISOString();
+	}
+	if (typeof value === "number" && !Number.isFinite(value)) {
+		throw new FortytwoIntraClientQueryError(param, `${value} is not a finite number`);
+	}
+	if (typeof value !== "string" && typeof value !== "number" && typeof value !== "boolean") {
+		throw new FortytwoIntraClientQueryError(param, `unsupported ${typeof value} value`);
+	}
+	return String(value);
+}
+
+// Lists are sent comma separated
+function formatList(param: string, value: unknown): string {
+	const values = Array.isArray(value) ? value : [value];
+	if (!values.length) {
+		throw new FortytwoIntraClientQueryError(param, "empty list");
+	}
+	return values.map((item) => formatValue(param, item)).join(",");
+}
+
+// Comparable value of a bound: a number, or a timestamp for dates
+function getBound(param: string, bound: RangeBound): { kind: "number" | "date"; value: number } {
+	if (typeof bound === "number") {
+		return { kind: "number", value: bound };
+	}
+	if (typeof bound === "string" && bound.trim() !== "" && !isNaN(Number(bound))) {
+		return { kind: "number", value: Number(bound) };
+	}
+
+	const time = bound instanceof Date ? bound.getTime() : Date.parse(bound);
+	if (isNaN(time)) {
+		throw new FortytwoIntraClientQueryError(
+			param,
+			`${String(bound)} is neither a number nor a date`,
+		);
+	}
+	return { kind: "date", value: time };
+}
+
+function formatRange(param: string, range: unknown): string {
+	if (!Array.isArray(range) || range.length !== 2) {
+		throw new FortytwoIntraClientQueryError(param, "expected a [min, max] pair");
+	}
+
+	const [min, max] = range.map((bound) => getBound(param, bound));
+	if (min.kind !== max.kind) {
+		throw new FortytwoIntraClientQueryError(param, "bounds mix a number and a date");
+	}
+	if (min.value > max.value) {
+		throw new FortytwoIntraClientQueryError(param, "min is greater than max");
+	}
+	return range.map((bound) => formatValue(param, bound)).join(",");
+}
+
+function formatSort(sort: string | string[]): string {
+	const fields = (Array.isArray(sort) ? sort : [sort]).flatMap((field) => field.split(","));
+
+	const seen = new Set<string>();
+	for (const field of fields) {
+		const name = field.trim().replace(/^-/, "");
+		if (!/^[\w.]+$/.test(name)) {
+			throw new FortytwoIntraClientQueryError("sort", `invalid field "${field}"`);
+		}
+		if (seen.has(name)) {
+			throw new FortytwoIntraClientQueryError("sort", `${name} is sorted twice`);
+		}
+		seen.add(name);
+	}
+	return fields.map((field) => field.trim()).join(",");
+}
+
+function formatPage(param: string, value: unknown): string {
+	if (!Number.isInteger(value) || (value as number) < 1) {
+		throw new FortytwoIntraClientQueryError(param, "expected a positive integer");
+	}
+	return String(value);
+}
+
+// Flattens a query to the bracket syntax of the API, with sorted keys so equal queries serialize equally
+export function serializeQuery(query: IntraQuery = {}): Record<string, string> {
+	const { filter = {}, range = {}, sort, page, ...params } = query;
+	const entries: Array<[string, string]> = [];
+
+	for (const [param, value] of Object.entries(params)) {
+		if (value === undefined) continue;
+		if (isPlainObject(value)) {
+			throw new FortytwoIntraClientQueryError(param, "only filter, range and page take an object");
+		}
+		entries.push([param, formatList(param, value)]);
+	}
+
+	for (const [field, value] of Object.entries(filter)) {
+		if (value === undefined) continue;
+		entries.push([`filter[${field}]`, formatList(`filter[${field}]`, value)]);
+	}
+
+	for (const [field, value] of Object.entries(range)) {
+		if (value === undefined) continue;
+		if (filter[field] !== undefined) {
+			throw new FortytwoIntraClientQueryError(
+				`range[${field}]`,
+				`${field} is also filtered, use one or the other`,
+			);
+		}
+		entries.push([`range[${field}]`, formatRange(`range[${field}]`, value)]);
+	}
+
+	if (sort !== undefined) {
+		entries.push(["sort", formatSort(sort)]);
+	}
+
+	if (isPlainObject(page)) {
+		for (const key of ["number", "size"] as const) {
+			if (page[key] !== undefined) {
+				entries.push([`page[${key}]`, formatPage(`page[${key}]`, page[key])]);
+			}
+		}
+	} else if (page !== undefined) {
+		entries.push(["page", formatPage("page", page)]);
+	}
+
+	const serialized: Record<string, string> = {};
+	for (const [key, value] of entries.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))) {
+		if (key in serialized) {
+			throw new FortytwoIntraClientQueryError(key, "set twice");
+		}
+		serialized[key] = value;
+	}
+	return serialized;
+}
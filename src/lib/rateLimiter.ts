@@ -0,0 +1,255 @@
+import { AxiosInstance, isAxiosError } from "axios";
+
+export type Priority = "interactive" | "normal" | "background";
+
+declare module "axios" {
+	interface AxiosRequestConfig {
+		// Lane of the request in the rate limiter queue
+		priority?: Priority;
+	}
+}
+
+export type RateLimitQuota = {
+	limit: number | null;
+	remaining: number | null;
+};
+
+export type RateLimitState = {
+	secondly: RateLimitQuota;
+	hourly: RateLimitQuota;
+	pausedUntil: number | null;
+	updatedAt: number | null;
+	queued: number;
+	lanes: Record<Priority, number>;
+};
+
+export type RateLimiterOptions = {
+	maxRequests: number;
+	perMilliseconds: number;
+	adaptive: boolean;
+	lowQuotaRatio: number;
+	// A waiting request goes ahead of the lane just above once it has waited `aging` milliseconds longer
+	aging: number;
+};
+
+type Waiter = {
+	resolve: () => void;
+	enqueuedAt: number;
+};
+
+const HOUR = 3600 * 1000;
+
+const priorities: Priority[] = ["interactive", "normal", "background"];
+
+function readNumber(headers: Record<string, any>, name: string): number | null {
+	const value = parseInt(headers[name], 10);
+	return isNaN(value) ? null : value;
+}
+
+export function getRetryAfter(headers: Record<string, any>): number | null {
+	const header = headers["retry-after"];
+	if (header === undefined || header === null) {
+		return null;
+	}
+
+	// Retry-After is either a number of seconds or an HTTP date
+	const seconds = Number(header);
+	if (!isNaN(seconds)) {
+		return Math.max(seconds * 1000, 0);
+	}
+
+	const date = Date.parse(header);
+	return isNaN(date) ? null : Math.max(date - Date.now(), 0);
+}
+
+export class RateLimiter {
+	private timestamps: number[];
+	private lanes: Record<Priority, Waiter[]>;
+	private timer: NodeJS.Timeout | null;
+	private lastRequestAt: number;
+
+	private secondly: RateLimitQuota;
+	private hourly: RateLimitQuota;
+	private pausedUntil: number;
+	private updatedAt: number | null;
+
+	constructor(private options: RateLimiterOptions) {
+		this.timestamps = [];
+		this.lanes = { interactive: [], normal: [], background: [] };
+		this.timer = null;
+		this.lastRequestAt = 0;
+
+		this.secondly = { limit: null, remaining: null };
+		this.hourly = { limit: null, remaining: null };
+		this.pausedUntil = 0;
+		this.updatedAt = null;
+	}
+
+	public get state(): RateLimitState {
+		return {
+			secondly: { ...this.secondly },
+			hourly: { ...this.hourly },
+			pausedUntil: this.pausedUntil > Date.now() ? this.pausedUntil : null,
+			updatedAt: this.updatedAt,
+			queued: priorities.reduce((total, lane) => total + this.lanes[lane].length, 0),
+			lanes: {
+				interactive: this.lanes.interactive.length,
+				normal: this.lanes.normal.length,
+				background: this.lanes.background.length,
+			},
+		};
+	}
+
+	public attach(instance: AxiosInstance) {
+		instance.interceptors.request.use(async (config) => {
+			// Untagged requests (token requests) hold up the others, they go first
+			await this.acquire(
+				config.priority ?? "interactive",
+				config.signal as AbortSignal | undefined,
+			);
+			return config;
+		});
+
+		instance.interceptors.response.use(
+			(res) => {
+				this.update(res.headers);
+				return res;
+			},
+			(err) => {
+				if (isAxiosError(err) && err.response) {
+					this.update(err.response.headers);
+					if (err.response.status === 429) {
+						this.pause(getRetryAfter(err.response.headers) ?? 1000);
+					}
+				}
+				return Promise.reject(err);
+			},
+		);
+
+		return instance;
+	}
+
+	public acquire(priority: Priority = "normal", signal?: AbortSignal): Promise<void> {
+		return new Promise((resolve, reject) => {
+			if (signal?.aborted) {
+				return reject(signal.reason);
+			}
+
+			// Aborted requests leave the queue without using a slot
+			const onAbort = () => {
+				const lane = this.lanes[priority];
+				const index = lane.indexOf(waiter);
+				if (index !== -1) {
+					lane.splice(index, 1);
+				}
+				reject(signal!.reason);
+			};
+			const waiter: Waiter = {
+				resolve: () => {
+					signal?.removeEventListener("abort", onAbort);
+					resolve();
+				},
+				enqueuedAt: Date.now(),
+			};
+
+			signal?.addEventListener("abort", onAbort, { once: true });
+			this.lanes[priority].push(waiter);
+			this.drain();
+		});
+	}
+
+	public update(headers: Record<string, any>) {
+		const secondly = {
+			limit: readNumber(headers, "x-secondly-ratelimit-limit"),
+			remaining: readNumber(headers, "x-secondly-ratelimit-remaining"),
+		};
+		const hourly = {
+			limit: readNumber(headers, "x-hourly-ratelimit-limit"),
+			remaining: readNumber(headers, "x-hourly-ratelimit-remaining"),
+		};
+
+		if (secondly.remaining === null && hourly.remaining === null) {
+			return;
+		}
+
+		this.secondly = secondly;
+		this.hourly = hourly;
+		this.updatedAt = Date.now();
+	}
+
+	public pause(milliseconds: number) {
+		this.pausedUntil = Math.max(this.pausedUntil, Date.now() + milliseconds);
+	}
+
+	private drain() {
+		if (this.timer) return;
+
+		while (priorities.some((lane) => this.lanes[lane].length)) {
+			const wait = this.nextSlot() - Date.now();
+			if (wait > 0) {
+				this.timer = setTimeout(() => {
+					this.timer = null;
+					this.drain();
+				}, wait);
+				return;
+			}
+
+			const now = Date.now();
+			this.timestamps.push(now);
+			this.lastRequestAt = now;
+			this.next().resolve();
+		}
+	}
+
+	// Head of the highest lane, unless the head of the lane just below has waited `aging` longer
+	private next(): Waiter {
+		const [first, second] = priorities.filter((lane) => this.lanes[lane].length);
+
+		// Overtaking is limited to one lane so a backlog never outranks the lanes two levels up
+		if (
+			second &&
+			priorities.indexOf(second) === priorities.indexOf(first) + 1 &&
+			this.lanes[second][0].enqueuedAt + this.options.aging <= this.lanes[first][0].enqueuedAt
+		) {
+			return this.lanes[second].shift()!;
+		}
+		return this.lanes[first].shift()!;
+	}
+
+	private nextSlot() {
+		const { maxRequests, perMilliseconds } = this.options;
+		const now = Date.now();
+
+		// Sliding window of the configured limit
+		this.timestamps = this.timestamps.filter((t) => t > now - perMilliseconds);
+		let next = now;
+		if (this.timestamps.length >= maxRequests) {
+			next = this.timestamps[this.timestamps.length - maxRequests] + perMilliseconds;
+		}
+
+		next = Math.max(next, this.pausedUntil);
+
+		if (this.options.adaptive) {
+			next = Math.max(next, this.adaptiveSlot());
+		}
+
+		return next;
+	}
+
+	private adaptiveSlot() {
+		let next = 0;
+
+		// Secondly quota exhausted: wait for the next window
+		if (this.updatedAt && this.secondly.remaining !== null && this.secondly.remaining <= 0) {
+			next = this.updatedAt + 1000;
+		}
+
+		// Hourly quota running low: pace requests at the sustainable hourly rate
+		const { limit, remaining } = this.hourly;
+		if (limit && remaining !== null && remaining <= limit * this.options.lowQuotaRatio) {
+			next = Math.max(next, this.lastRequestAt + HOUR / limit);
+		}
+
+		return next;
+	}
+}
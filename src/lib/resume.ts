@@ -0,0 +1,48 @@
+import z from "zod";
+import { FortytwoIntraClientResumeError } from "../errors/resumeError";
+import { PagedResult } from "./pagination";
+
+export type FailedPage = { page: number; error: Error };
+
+export type PartialResult<T> = PagedResult<T> & {
+	failedPages: FailedPage[];
+	// Fetches only the failed pages when passed back to getAll, null once nothing is missing
+	resumeToken: string | null;
+};
+
+const resumeStateSchema = z.object({
+	version: z.literal(1),
+	// Endpoint, query and page size the pages belong to
+	key: z.string(),
+	pages: z.array(z.number().int().positive()),
+	// Page from which pages are followed one by one, when the last page is unknown
+	follow: z.number().int().positive().nullable(),
+	lastPage: z.number().int().positive().nullable(),
+	total: z.number().int().nonnegative().nullable(),
+});
+
+export type ResumeState = Omit<z.infer<typeof resumeStateSchema>, "version">;
+
+export function encodeResumeToken(state: ResumeState) {
+	return Buffer.from(JSON.stringify({ version: 1, ...state })).toString("base64url");
+}
+
+export function decodeResumeToken(token: string, key: string): ResumeState {
+	let content: unknown;
+	try {
+		content = JSON.parse(Buffer.from(token, "base64url").toString("utf8"));
+	} catch {
+		throw new FortytwoIntraClientResumeError("not a resume token");
+	}
+
+	const result = resumeStateSchema.safeParse(content);
+	if (!result.success) {
+		throw new FortytwoIntraClientResumeError("not a resume token");
+	}
+	if (result.data.key !== key) {
+		throw new FortytwoIntraClientResumeError("issued for another endpoint, query or page size");
+	}
+
+	const { pages, follow, lastPage, total } = result.data;
+	return { key, pages, follow, lastPage, total };
+}
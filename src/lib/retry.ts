@@ -0,0 +1,96 @@
+import { AxiosError } from "axios";
+import { Method } from "../types";
+
+export type RetryPolicy = {
+	backoff: "none" | "linear" | "exponential";
+	baseDelay: number;
+	maxDelay: number;
+	jitter: "none" | "full" | "equal";
+	statusCodes: number[];
+	networkErrors: boolean;
+	// Methods retried on failures the server may already have processed (5xx, network errors)
+	methods: Method[];
+};
+
+export const defaultRetryPolicy: RetryPolicy = {
+	backoff: "exponential",
+	baseDelay: 500,
+	maxDelay: 30000,
+	jitter: "full",
+	statusCodes: [401, 429, 500, 502, 503, 504],
+	networkErrors: true,
+	methods: ["GET", "PUT"],
+};
+
+const networkErrorCodes = [
+	"ECONNRESET",
+	"ECONNREFUSED",
+	"ECONNABORTED",
+	"ETIMEDOUT",
+	"EPIPE",
+	"EAI_AGAIN",
+	"ERR_NETWORK",
+];
+
+export function isRetryable(err: AxiosError, method: Method, policy: RetryPolicy): boolean {
+	const status = err.response?.status;
+
+	if (status) {
+		if (!policy.statusCodes.includes(status)) {
+			return false;
+		}
+		// The request was rejected before being processed, any method is safe to replay
+		if (status === 401 || status === 429) {
+			return true;
+		}
+		return policy.methods.includes(method);
+	}
+
+	if (!policy.networkErrors || !err.code || !networkErrorCodes.includes(err.code)) {
+		return false;
+	}
+	return policy.methods.includes(method);
+}
+
+export function getRetryDelay(policy: RetryPolicy, attempt: number): number {
+	let delay: number;
+	switch (policy.backoff) {
+		case "none":
+			delay = 0;
+			break;
+		case "linear":
+			delay = policy.baseDelay * attempt;
+			break;
+		case "exponential":
+			delay = policy.baseDelay * 2 ** (attempt - 1);
+			break;
+	}
+	delay = Math.min(delay, policy.maxDelay);
+
+	switch (policy.jitter) {
+		case "full":
+			return Math.random() * delay;
+		case "equal":
+			return delay / 2 + (Math.random() * delay) / 2;
+		default:
+			return delay;
+	}
+}
+
+export function sleep(milliseconds: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			return reject(signal.reason);
+		}
+
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(signal!.reason);
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener("abort", onAbort);
+			resolve();
+		}, milliseconds);
+		signal?.addEventListener("abort", onAbort, { once: true });
+	});
+}
@@ -0,0 +1,15 @@
+// Callers joining an inflight call share its result, their own arguments are ignored
+export function singleFlight<A extends unknown[], T>(
+	fn: (...args: A) => Promise<T>,
+): (...args: A) => Promise<T> {
+	let inflight: Promise<T> | null = null;
+
+	return (...args) => {
+		if (!inflight) {
+			inflight = fn(...args).finally(() => {
+				inflight = null;
+			});
+		}
+		return inflight;
+	};
+}
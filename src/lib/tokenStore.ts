@@ -0,0 +1,74 @@
+import z from "zod";
+import { JsonRecordFile } from "./jsonFile";
+
+export const storedTokenSchema = z.object({
+	access_token: z.string(),
+	expires_at: z.number(),
+	token_type: z.string(),
+	scope: z.string().optional(),
+	refresh_token: z.string().optional(),
+	refresh_expires_at: z.number().optional(),
+});
+
+export type StoredToken = z.infer<typeof storedTokenSchema>;
+
+export type TokenStoreKey = {
+	client: string;
+	subject: string;
+};
+
+export interface TokenStore {
+	get(key: TokenStoreKey): Promise<StoredToken | null>;
+	set(key: TokenStoreKey, token: StoredToken): Promise<void>;
+	delete(key: TokenStoreKey): Promise<void>;
+}
+
+function serializeKey(key: TokenStoreKey) {
+	return `${key.client}:${key.subject}`;
+}
+
+export class MemoryTokenStore implements TokenStore {
+	private tokens: Map<string, StoredToken>;
+
+	constructor() {
+		this.tokens = new Map();
+	}
+
+	public async get(key: TokenStoreKey) {
+		return this.tokens.get(serializeKey(key)) ?? null;
+	}
+
+	public async set(key: TokenStoreKey, token: StoredToken) {
+		this.tokens.set(serializeKey(key), token);
+	}
+
+	public async delete(key: TokenStoreKey) {
+		this.tokens.delete(serializeKey(key));
+	}
+}
+
+export class FileTokenStore implements TokenStore {
+	private file: JsonRecordFile;
+
+	constructor(path: string) {
+		this.file = new JsonRecordFile(path, { mode: 0o600, space: 2 });
+	}
+
+	public async get(key: TokenStoreKey) {
+		const tokens = await this.file.read();
+		const result = storedTokenSchema.safeParse(tokens[serializeKey(key)]);
+		return result.success ? result.data : null;
+	}
+
+	public set(key: TokenStoreKey, token: StoredToken) {
+		return this.file.update((tokens) => {
+			tokens[serializeKey(key)] = token;
+		});
+	}
+
+	public delete(key: TokenStoreKey) {
+		return this.file.update((tokens) => {
+			delete tokens[serializeKey(key)];
+		});
+	}
+}
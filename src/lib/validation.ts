@@ -0,0 +1,62 @@
+import z from "zod";
+import { FortytwoIntraClientValidationError } from "../errors/validationError";
+
+export type ValidationMode = "throw" | "safe" | "warn" | "filter";
+
+export type ValidationResult<T> =
+	| { success: true; data: T; error: null }
+	| { success: false; data: unknown; error: FortytwoIntraClientValidationError };
+
+export type InvalidHandler = (error: FortytwoIntraClientValidationError) => void;
+
+// Drops the items rejected by the element schema, array-level checks are not applied
+function filterItems(
+	items: unknown[],
+	schema: z.ZodArray,
+	page: number | null,
+	onInvalid: InvalidHandler,
+) {
+	const valid: unknown[] = [];
+	items.forEach((item, index) => {
+		const result = z.safeParse(schema.element, item);
+		if (result.success) {
+			valid.push(result.data);
+		} else {
+			onInvalid(new FortytwoIntraClientValidationError(result.error, item, { page, index }));
+		}
+	});
+	return valid;
+}
+
+export function validate(
+	data: unknown,
+	schema: z.ZodType | undefined,
+	mode: ValidationMode,
+	page: number | null,
+	onInvalid: InvalidHandler,
+): any {
+	if (!schema) {
+		return data;
+	}
+
+	if (mode === "filter" && schema instanceof z.ZodArray && Array.isArray(data)) {
+		return filterItems(data, schema, page, onInvalid);
+	}
+
+	const result = schema.safeParse(data);
+	if (result.success) {
+		return mode === "safe" ? { success: true, data: result.data, error: null } : result.data;
+	}
+
+	const error = new FortytwoIntraClientValidationError(result.error, data, { page });
+	switch (mode) {
+		case "safe":
+			return { success: false, data, error };
+		case "warn":
+			onInvalid(error);
+			return data;
+		default:
+			// Filtering only applies to arrays, anything else fails like `throw`
+			throw error;
+	}
+}
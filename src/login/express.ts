@@ -0,0 +1,32 @@
+import { IncomingMessage, ServerResponse } from "http";
+import type { FortytwoIntraClient } from "../index";
+import { FortytwoIntraLogin, FortytwoIntraLoginConf } from ".";
+
+// Works with Express, Connect and plain node:http servers
+export function expressLogin<P = any>(
+	client: FortytwoIntraClient,
+	conf: Partial<FortytwoIntraLoginConf<P>> & Pick<FortytwoIntraLoginConf<P>, "onLogin">,
+) {
+	const login = new FortytwoIntraLogin<P>(client, conf);
+
+	return (req: IncomingMessage, res: ServerResponse, next: (err?: unknown) => void) => {
+		if (req.method !== "GET" || !req.url) {
+			return next();
+		}
+
+		login
+			.handle({ url: req.url, headers: req.headers })
+			.then((response) => {
+				if (!response) {
+					return next();
+				}
+
+				res.statusCode = response.status;
+				for (const [name, value] of Object.entries(response.headers)) {
+					res.setHeader(name, value);
+				}
+				res.end(response.body);
+			})
+			.catch(next);
+	};
+}
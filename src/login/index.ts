@@ -0,0 +1,201 @@
+import { IncomingHttpHeaders } from "http";
+import type { FortytwoIntraClient } from "../index";
+import { UserToken } from "../schemas";
+import { FortytwoIntraClientOAuthError } from "../errors/oauthError";
+import { oauthRequest } from "../types";
+
+export type LoginRequest = {
+	url: string;
+	headers: IncomingHttpHeaders;
+};
+
+export type LoginResponse = {
+	status: number;
+	headers: Record<string, string | string[]>;
+	body?: string;
+};
+
+export type LoginResult<P = any> = {
+	token: UserToken;
+	profile: P;
+};
+
+export interface FortytwoIntraLoginConf<P = any> {
+	redirect_uri: string | null;
+	authorizePath: string;
+	callbackPath: string;
+	successRedirect: string;
+	failureRedirect: string | null;
+	pkce: boolean;
+	cookieName: string;
+	cookieSecure: boolean | null;
+	cookieMaxAge: number;
+	onLogin: (result: LoginResult<P>, req: LoginRequest) => void | string | Promise<void | string>;
+	onError: ((err: unknown, req: LoginRequest) => void) | null;
+}
+
+const defaultConf: Omit<FortytwoIntraLoginConf, "onLogin"> = {
+	redirect_uri: null,
+	authorizePath: "/login",
+	callbackPath: "/callback",
+	successRedirect: "/",
+	failureRedirect: null,
+	pkce: true,
+	cookieName: "fortytwo_oauth",
+	cookieSecure: null,
+	cookieMaxAge: 600,
+	onError: null,
+};
+
+function parseCookies(header: string | undefined) {
+	const cookies: Record<string, string> = {};
+	if (!header) return cookies;
+
+	for (const part of header.split(";")) {
+		const index = part.indexOf("=");
+		if (index === -1) continue;
+		cookies[part.slice(0, index).trim()] = part.slice(index + 1).trim();
+	}
+	return cookies;
+}
+
+export class FortytwoIntraLogin<P = any> {
+	private conf: FortytwoIntraLoginConf<P>;
+
+	constructor(
+		private client: FortytwoIntraClient,
+		conf: Partial<FortytwoIntraLoginConf<P>> & Pick<FortytwoIntraLoginConf<P>, "onLogin">,
+	) {
+		this.conf = { ...defaultConf, ...conf };
+	}
+
+	public get authorizePath() {
+		return this.conf.authorizePath;
+	}
+
+	public get callbackPath() {
+		return this.conf.callbackPath;
+	}
+
+	private cookie(value: string, maxAge: number, redirectUri: string | null) {
+		const secure = this.conf.cookieSecure ?? redirectUri?.startsWith("https://") ?? false;
+
+		// SameSite=Lax so the cookie is sent back on the redirect from the 42 authorize page
+		const attributes = [
+			`${this.conf.cookieName}=${value}`,
+			"Path=/",
+			"HttpOnly",
+			"SameSite=Lax",
+			`Max-Age=${maxAge}`,
+		];
+		if (secure) {
+			attributes.push("Secure");
+		}
+		return attributes.join("; ");
+	}
+
+	private readExpected(req: LoginRequest): oauthRequest | null {
+		const raw = parseCookies(req.headers.cookie)[this.conf.cookieName];
+		if (!raw) return null;
+
+		try {
+			const expected = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+			return typeof expected?.redirect_uri === "string" ? expected : null;
+		} catch {
+			return null;
+		}
+	}
+
+	private failure(err: unknown, req: LoginRequest, status: number, reason: string): LoginResponse {
+		this.conf.onError?.(err, req);
+
+		const headers: Record<string, string | string[]> = {
+			"Set-Cookie": this.cookie("", 0, this.conf.redirect_uri),
+		};
+
+		if (this.conf.failureRedirect) {
+			const separator = this.conf.failureRedirect.includes("?") ? "&" : "?";
+			headers["Location"] =
+				`${this.conf.failureRedirect}${separator}error=${encodeURIComponent(reason)}`;
+			return { status: 302, headers };
+		}
+
+		headers["Content-Type"] = "text/plain; charset=utf-8";
+		return { status, headers, body: `Login failed: ${reason}` };
+	}
+
+	public authorize(req: LoginRequest): LoginResponse {
+		const { url, ...expected } = this.client.getOAuthUrl({
+			redirect_uri: this.conf.redirect_uri ?? undefined,
+			generateState: true,
+			pkce: this.conf.pkce,
+		});
+		const value = Buffer.from(JSON.stringify(expected)).toString("base64url");
+
+		return {
+			status: 302,
+			headers: {
+				Location: url,
+				"Set-Cookie": this.cookie(value, this.conf.cookieMaxAge, expected.redirect_uri),
+			},
+		};
+	}
+
+	public async callback(req: LoginRequest): Promise<LoginResponse> {
+		const query = new URL(req.url, "http://localhost").searchParams;
+
+		const error = query.get("error");
+		if (error) {
+			return this.failure(new Error(query.get("error_description") ?? error), req, 401, error);
+		}
+
+		const code = query.get("code");
+		if (!code) {
+			return this.failure(new Error("Missing code parameter"), req, 400, "missing_code");
+		}
+
+		const expected = this.readExpected(req);
+		if (!expected) {
+			return this.failure(new Error("Missing OAuth cookie"), req, 400, "missing_state");
+		}
+
+		let result: LoginResult<P>;
+		try {
+			const token = await this.client.completeOAuth({ code, state: query.get("state"), expected });
+			const profile = await this.client.get("me", { token });
+			result = { token, profile };
+		} catch (err) {
+			if (err instanceof FortytwoIntraClientOAuthError) {
+				return this.failure(err, req, 400, err.reason);
+			}
+			return this.failure(err, req, 502, "exchange_failed");
+		}
+
+		let location: void | string;
+		try {
+			location = await this.conf.onLogin(result, req);
+		} catch (err) {
+			return this.failure(err, req, 500, "login_rejected");
+		}
+
+		return {
+			status: 302,
+			headers: {
+				Location: location || this.conf.successRedirect,
+				"Set-Cookie": this.cookie("", 0, expected.redirect_uri),
+			},
+		};
+	}
+
+	public async handle(req: LoginRequest): Promise<LoginResponse | null> {
+		const pathname = new URL(req.url, "http://localhost").pathname;
+
+		if (pathname === this.conf.authorizePath) {
+			return this.authorize(req);
+		}
+		if (pathname === this.conf.callbackPath) {
+			return this.callback(req);
+		}
+		return null;
+	}
+}
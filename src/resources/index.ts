@@ -0,0 +1,56 @@
+import z from "zod";
+import type { FortytwoIntraClient } from "../index";
+import { inputOptions, paginateOptions, querystring } from "../types";
+import { ValidationMode } from "../lib/validation";
+import { QueryFilters } from "../lib/query";
+
+// Resources always return the parsed data, `safe` results are only available on the client
+type validation = { validation?: Exclude<ValidationMode, "safe"> };
+
+export type resourceGetOptions = Omit<inputOptions, "body" | "perPage" | "maxPages"> & validation;
+export type resourceListOptions = Omit<inputOptions, "body"> &
+	validation & { filter?: QueryFilters };
+export type resourceIterateOptions = paginateOptions & validation & { filter?: QueryFilters };
+
+function withFilter(query: querystring | undefined, filter: QueryFilters | undefined): querystring {
+	return filter ? { ...query, filter: { ...query?.filter, ...filter } } : { ...query };
+}
+
+export class FortytwoIntraResource<S extends z.ZodType> {
+	private listSchema: z.ZodArray<S>;
+
+	constructor(
+		private client: FortytwoIntraClient,
+		private path: string,
+		private schema: S,
+	) {
+		this.listSchema = z.array(schema);
+	}
+
+	public get(id: string | number, options: resourceGetOptions = {}): Promise<z.infer<S>> {
+		return this.client.get(`${this.path}/${encodeURIComponent(id)}`, {
+			...options,
+			schema: this.schema,
+		});
+	}
+
+	public list(options: resourceListOptions = {}): Promise<z.infer<S>[]> {
+		const { filter, ...rest } = options;
+
+		return this.client.getAll(this.path, {
+			...rest,
+			query: withFilter(rest.query, filter),
+			schema: this.listSchema,
+		});
+	}
+
+	public iterate(options: resourceIterateOptions = {}): AsyncGenerator<z.infer<S>> {
+		const { filter, ...rest } = options;
+
+		return this.client.iterate(this.path, {
+			...rest,
+			query: withFilter(rest.query, filter),
+			schema: this.listSchema,
+		});
+	}
+}
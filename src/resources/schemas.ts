@@ -0,0 +1,205 @@
+import z from "zod";
+
+// Objects are loose so fields not described here are kept rather than stripped
+
+export const userImageSchema = z.looseObject({
+	link: z.string().nullable(),
+	versions: z.looseObject({
+		large: z.string().nullable(),
+		medium: z.string().nullable(),
+		small: z.string().nullable(),
+		micro: z.string().nullable(),
+	}),
+});
+
+export const shortUserSchema = z.looseObject({
+	id: z.number(),
+	login: z.string(),
+	url: z.string(),
+});
+
+export const cursusSchema = z.looseObject({
+	id: z.number(),
+	name: z.string(),
+	slug: z.string(),
+	kind: z.string(),
+	created_at: z.string(),
+});
+
+export const campusSchema = z.looseObject({
+	id: z.number(),
+	name: z.string(),
+	time_zone: z.string(),
+	language: z.looseObject({
+		id: z.number(),
+		name: z.string(),
+		identifier: z.string(),
+	}),
+	users_count: z.number(),
+	country: z.string(),
+	city: z.string(),
+	website: z.string().nullable(),
+	active: z.boolean(),
+	public: z.boolean(),
+});
+
+export const shortProjectSchema = z.looseObject({
+	id: z.number(),
+	name: z.string(),
+	slug: z.string(),
+	parent_id: z.number().nullable(),
+});
+
+export const cursusUserSchema = z.looseObject({
+	id: z.number(),
+	begin_at: z.string(),
+	end_at: z.string().nullable(),
+	grade: z.string().nullable(),
+	level: z.number(),
+	skills: z.array(z.looseObject({ id: z.number(), name: z.string(), level: z.number() })),
+	cursus_id: z.number(),
+	has_coalition: z.boolean(),
+	blackholed_at: z.string().nullable(),
+	created_at: z.string(),
+	updated_at: z.string(),
+	user: shortUserSchema,
+	cursus: cursusSchema,
+});
+
+export const projectsUserSchema = z.looseObject({
+	id: z.number(),
+	occurrence: z.number(),
+	final_mark: z.number().nullable(),
+	status: z.string(),
+	"validated?": z.boolean().nullable(),
+	current_team_id: z.number().nullable(),
+	project: shortProjectSchema,
+	cursus_ids: z.array(z.number()),
+	marked_at: z.string().nullable(),
+	marked: z.boolean(),
+	retriable_at: z.string().nullable(),
+	created_at: z.string(),
+	updated_at: z.string(),
+	user: shortUserSchema,
+});
+
+export const userSchema = z.looseObject({
+	id: z.number(),
+	email: z.string(),
+	login: z.string(),
+	first_name: z.string(),
+	last_name: z.string(),
+	usual_full_name: z.string().nullable(),
+	usual_first_name: z.string().nullable(),
+	url: z.string(),
+	displayname: z.string(),
+	kind: z.string(),
+	image: userImageSchema,
+	"staff?": z.boolean(),
+	correction_point: z.number(),
+	pool_month: z.string().nullable(),
+	pool_year: z.string().nullable(),
+	location: z.string().nullable(),
+	wallet: z.number(),
+	created_at: z.string(),
+	updated_at: z.string(),
+	"alumni?": z.boolean(),
+	"active?": z.boolean(),
+	// Only returned by users/:id and me
+	cursus_users: z.array(cursusUserSchema.omit({ user: true })).optional(),
+	projects_users: z.array(projectsUserSchema.omit({ user: true })).optional(),
+	campus: z.array(campusSchema).optional(),
+});
+
+const teamUserSchema = z.looseObject({
+	id: z.number(),
+	login: z.string(),
+	url: z.string(),
+	leader: z.boolean(),
+	occurrence: z.number(),
+	validated: z.boolean(),
+	projects_user_id: z.number(),
+});
+
+export const teamSchema = z.looseObject({
+	id: z.number(),
+	name: z.string(),
+	url: z.string(),
+	final_mark: z.number().nullable(),
+	project_id: z.number(),
+	created_at: z.string(),
+	updated_at: z.string(),
+	status: z.string(),
+	terminating_at: z.string().nullable(),
+	users: z.array(teamUserSchema),
+	"locked?": z.boolean(),
+	"validated?": z.boolean().nullable(),
+	"closed?": z.boolean(),
+	repo_url: z.string().nullable(),
+	locked_at: z.string().nullable(),
+	closed_at: z.string().nullable(),
+	project_session_id: z.number(),
+});
+
+// Users hidden from the evaluation are returned as the string "invisible"
+const scaleTeamUserSchema = z.union([shortUserSchema, z.literal("invisible")]);
+
+export const scaleTeamSchema = z.looseObject({
+	id: z.number(),
+	scale_id: z.number(),
+	comment: z.string().nullable(),
+	created_at: z.string(),
+	updated_at: z.string(),
+	feedback: z.string().nullable(),
+	final_mark: z.number().nullable(),
+	flag: z
+		.looseObject({
+			id: z.number(),
+			name: z.string(),
+			positive: z.boolean(),
+		})
+		.nullable(),
+	begin_at: z.string(),
+	correcteds: z.union([z.array(scaleTeamUserSchema), z.literal("invisible")]),
+	corrector: scaleTeamUserSchema,
+	truant: z.looseObject({}).nullable(),
+	filled_at: z.string().nullable(),
+	team: teamSchema.partial().nullable(),
+});
+
+export const locationSchema = z.looseObject({
+	id: z.number(),
+	begin_at: z.string(),
+	end_at: z.string().nullable(),
+	primary: z.boolean(),
+	host: z.string(),
+	campus_id: z.number(),
+	user: shortUserSchema,
+});
+
+export const eventSchema = z.looseObject({
+	id: z.number(),
+	name: z.string(),
+	description: z.string(),
+	location: z.string().nullable(),
+	kind: z.string(),
+	max_people: z.number().nullable(),
+	nbr_subscribers: z.number(),
+	begin_at: z.string(),
+	end_at: z.string(),
+	campus_ids: z.array(z.number()),
+	cursus_ids: z.array(z.number()),
+	created_at: z.string(),
+	updated_at: z.string(),
+});
+
+export type User = z.infer<typeof userSchema>;
+export type ShortUser = z.infer<typeof shortUserSchema>;
+export type Cursus = z.infer<typeof cursusSchema>;
+export type Campus = z.infer<typeof campusSchema>;
+export type CursusUser = z.infer<typeof cursusUserSchema>;
+export type ProjectsUser = z.infer<typeof projectsUserSchema>;
+export type Team = z.infer<typeof teamSchema>;
+export type ScaleTeam = z.infer<typeof scaleTeamSchema>;
+export type Location = z.infer<typeof locationSchema>;
+export type Event = z.infer<typeof eventSchema>;
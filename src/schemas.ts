@@ -0,0 +1,43 @@
+import z from "zod";
+
+export const appTokenSchema = z
+	.object({
+		access_token: z.string(),
+		token_type: z.string(),
+		expires_in: z.number(),
+		scope: z.string(),
+	})
+	.transform((obj) => {
+		const now = Date.now();
+
+		return {
+			access_token: obj.access_token,
+			expires_at: now + obj.expires_in * 1000,
+			token_type: obj.token_type,
+			scope: obj.scope,
+		};
+	});
+
+export type AppToken = z.infer<typeof appTokenSchema>;
+
+export const userTokenSchema = z
+	.object({
+		access_token: z.string(),
+		token_type: z.string(),
+		expires_in: z.number(),
+		refresh_token: z.string().optional(),
+		scope: z.string(),
+	})
+	.transform((obj) => {
+		const now = Date.now();
+
+		return {
+			access_token: obj.access_token,
+			refresh_token: obj.refresh_token ?? null,
+			expires_at: now + obj.expires_in * 1000,
+			token_type: obj.token_type,
+			scopes: obj.scope.split(" ").filter(Boolean),
+		};
+	});
+
+export type UserToken = z.infer<typeof userTokenSchema>;
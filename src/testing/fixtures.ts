@@ -0,0 +1,194 @@
+import axios, {
+	AxiosAdapter,
+	AxiosError,
+	AxiosHeaders,
+	AxiosResponse,
+	InternalAxiosRequestConfig,
+	isAxiosError,
+} from "axios";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { dirname } from "path";
+import z from "zod";
+import { defaultLogRedaction, redactBody } from "../lib/logs";
+
+const interactionSchema = z.object({
+	request: z.object({
+		method: z.string(),
+		url: z.string(),
+		body: z.unknown(),
+	}),
+	response: z.object({
+		status: z.number(),
+		statusText: z.string(),
+		headers: z.record(z.string(), z.any()),
+		data: z.unknown(),
+	}),
+});
+
+const fixtureFileSchema = z.object({
+	version: z.literal(1),
+	interactions: z.array(interactionSchema),
+});
+
+export type Interaction = z.infer<typeof interactionSchema>;
+
+export type IntraFixturesConf = {
+	path: string;
+	// `record` sends the requests and keeps the responses, `replay` only serves the recorded ones
+	mode: "record" | "replay";
+	// Keys replaced in request bodies, e.g. the client secret of token requests
+	requestKeys: string[];
+	// Keys replaced in response bodies, e.g. the issued tokens
+	responseKeys: string[];
+	// Response headers left out of the fixtures
+	headers: string[];
+};
+
+const defaultConf: Omit<IntraFixturesConf, "path"> = {
+	mode: "replay",
+	requestKeys: defaultLogRedaction.bodyKeys,
+	responseKeys: ["access_token", "refresh_token", "id_token"],
+	headers: ["set-cookie"],
+};
+
+function parseBody(data: unknown): unknown {
+	if (typeof data !== "string") {
+		return data ?? null;
+	}
+	try {
+		return JSON.parse(data);
+	} catch {
+		return data;
+	}
+}
+
+export class IntraFixtures {
+	public readonly adapter: AxiosAdapter;
+
+	private conf: IntraFixturesConf;
+	private interactions: Interaction[];
+	private loaded: Promise<Map<string, Interaction[]>> | null;
+
+	constructor(conf: Pick<IntraFixturesConf, "path"> & Partial<IntraFixturesConf>) {
+		this.conf = { ...defaultConf, ...conf };
+		this.interactions = [];
+		this.loaded = null;
+		this.adapter = (config) =>
+			this.conf.mode === "record" ? this.record(config) : this.replay(config);
+	}
+
+	public get recorded(): Interaction[] {
+		return structuredClone(this.interactions);
+	}
+
+	private getRequest(config: InternalAxiosRequestConfig): Interaction["request"] {
+		// Sorted so the same query always matches the same recording
+		const url = new URL(axios.getUri(config));
+		url.searchParams.sort();
+
+		// Token requests of the V3 client are form encoded
+		const form = String(config.headers.getContentType()).includes("x-www-form-urlencoded");
+		const body =
+			form && typeof config.data === "string"
+				? Object.fromEntries(new URLSearchParams(config.data))
+				: parseBody(config.data);
+
+		return {
+			method: (config.method ?? "get").toUpperCase(),
+			url: url.toString(),
+			body: redactBody(body, this.conf.requestKeys),
+		};
+	}
+
+	private getKey(request: Interaction["request"]) {
+		return `${request.method} ${request.url} ${JSON.stringify(request.body)}`;
+	}
+
+	private async record(config: InternalAxiosRequestConfig): Promise<AxiosResponse> {
+		const send = axios.getAdapter(axios.defaults.adapter);
+		const request = this.getRequest(config);
+
+		let res: AxiosResponse;
+		try {
+			res = await send(config);
+		} catch (err) {
+			// Network errors have nothing to replay
+			if (isAxiosError(err) && err.response) {
+				this.keep(request, err.response);
+			}
+			throw err;
+		}
+
+		this.keep(request, res);
+		return res;
+	}
+
+	private keep(request: Interaction["request"], res: AxiosResponse) {
+		const headers = Object.fromEntries(
+			Object.entries({ ...res.headers }).filter(
+				([name]) => !this.conf.headers.includes(name.toLowerCase()),
+			),
+		);
+
+		this.interactions.push({
+			request,
+			response: {
+				status: res.status,
+				statusText: res.statusText,
+				headers,
+				data: redactBody(parseBody(res.data), this.conf.responseKeys),
+			},
+		});
+	}
+
+	private async load() {
+		const file = fixtureFileSchema.parse(JSON.parse(await readFile(this.conf.path, "utf8")));
+
+		const responses = new Map<string, Interaction[]>();
+		for (const interaction of file.interactions) {
+			const key = this.getKey(interaction.request);
+			responses.set(key, [...(responses.get(key) ?? []), interaction]);
+		}
+		return responses;
+	}
+
+	private async replay(config: InternalAxiosRequestConfig): Promise<AxiosResponse> {
+		this.loaded ??= this.load();
+		const responses = await this.loaded;
+
+		const request = this.getRequest(config);
+		const queue = responses.get(this.getKey(request));
+		if (!queue) {
+			throw new Error(`No recorded response for ${request.method} ${request.url}`);
+		}
+
+		// Identical requests replay in recorded order, the last response repeats
+		const { response } = queue.length > 1 ? queue.shift()! : queue[0];
+		const res: AxiosResponse = {
+			status: response.status,
+			statusText: response.statusText,
+			headers: new AxiosHeaders(response.headers),
+			data: typeof response.data === "string" ? response.data : JSON.stringify(response.data),
+			config,
+			request: {},
+		};
+
+		const validateStatus = config.validateStatus;
+		if (!validateStatus || validateStatus(res.status)) {
+			return res;
+		}
+		throw new AxiosError(
+			`Request failed with status code ${res.status}`,
+			res.status < 500 ? AxiosError.ERR_BAD_REQUEST : AxiosError.ERR_BAD_RESPONSE,
+			config,
+			res.request,
+			res,
+		);
+	}
+
+	public async save() {
+		const file = { version: 1, interactions: this.interactions };
+		await mkdir(dirname(this.conf.path), { recursive: true });
+		await writeFile(this.conf.path, JSON.stringify(file, null, "\t") + "\n");
+	}
+}
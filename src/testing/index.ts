@@ -0,0 +1,11 @@
+export { IntraFixtures } from "./fixtures";
+export type { Interaction, IntraFixturesConf } from "./fixtures";
+export { MockIntraServer } from "./mockServer";
+export type {
+	MockApplication,
+	MockFault,
+	MockIntraServerConf,
+	MockItem,
+	MockRequest,
+	MockUser,
+} from "./mockServer";
@@ -0,0 +1,635 @@
+import { createHash, randomBytes, randomUUID } from "crypto";
+import { createServer, IncomingMessage, Server, STATUS_CODES } from "http";
+import { AddressInfo } from "net";
+import type { FortytwoIntraClientConf } from "../index";
+
+export type MockApplication = {
+	client_id: string;
+	client_secret: string;
+};
+
+// Account used by the authorize endpoint and the V3 password grant, also returned by /v2/me
+export type MockUser = {
+	id: number;
+	login: string;
+	password?: string;
+	[key: string]: unknown;
+};
+
+export type MockItem = Record<string, unknown>;
+
+export type MockFault = {
+	status: number;
+	method?: string;
+	// Exact pathname (e.g. "/v2/users") or a pattern, every request when omitted
+	path?: string | RegExp;
+	// Query parameters the request must have, e.g. { page: "3" }
+	query?: Record<string, string>;
+	// Number of requests that fail, Infinity until reset (default: 1)
+	times?: number;
+	// Retry-After of a 429 in seconds (default: 1)
+	retryAfter?: number;
+	body?: unknown;
+};
+
+export type MockRequest = {
+	method: string;
+	path: string;
+	query: Record<string, string>;
+	status: number;
+};
+
+export type MockIntraServerConf = {
+	// Any client is accepted when empty
+	applications: MockApplication[];
+	users: MockUser[];
+	// Lists served under /v2/<path> and /v3/<path>, e.g. { "campus/9/users": [...] }
+	resources: Record<string, MockItem[]>;
+	tokenTtl: number;
+	refreshTokenTtl: number;
+	maxPerPage: number;
+	// false leaves out X-Total and the rel="last" link of v2 lists, pages then only link to the next one
+	totals: boolean;
+};
+
+const defaultConf: MockIntraServerConf = {
+	applications: [],
+	users: [],
+	resources: {},
+	tokenTtl: 7200,
+	refreshTokenTtl: 86400,
+	maxPerPage: 100,
+	totals: true,
+};
+
+type TokenFormat = "app" | "user" | "v3";
+
+type IssuedToken = {
+	client_id: string;
+	user: MockUser | null;
+	scopes: string[];
+	created_at: number;
+	expires_at: number;
+};
+
+type IssuedRefreshToken = IssuedToken & { format: TokenFormat };
+
+type AuthorizationCode = {
+	client_id: string;
+	redirect_uri: string;
+	user: MockUser;
+	scopes: string[];
+	code_challenge: string | null;
+};
+
+type Reply = (status: number, body?: unknown, headers?: Record<string, string>) => void;
+
+async function readBody(req: IncomingMessage): Promise<Record<string, any>> {
+	const chunks: Buffer[] = [];
+	for await (const chunk of req) {
+		chunks.push(chunk);
+	}
+
+	const raw = Buffer.concat(chunks).toString("utf8");
+	if (!raw) {
+		return {};
+	}
+	if (String(req.headers["content-type"]).includes("x-www-form-urlencoded")) {
+		return Object.fromEntries(new URLSearchParams(raw));
+	}
+	try {
+		return JSON.parse(raw);
+	} catch {
+		return {};
+	}
+}
+
+function getScopes(scope: unknown) {
+	return typeof scope === "string" && scope ? scope.split(" ") : ["public"];
+}
+
+function withoutPassword({ password, ...user }: MockUser) {
+	return user;
+}
+
+// Numbers and dates compare by value, anything else as text
+function toComparable(value: unknown): number | string {
+	if (typeof value === "number") {
+		return value;
+	}
+
+	const text = String(value);
+	if (text.trim() !== "" && !isNaN(Number(text))) {
+		return Number(text);
+	}
+	const time = Date.parse(text);
+	return isNaN(time) ? text : time;
+}
+
+function compare(a: unknown, b: unknown) {
+	const [x, y] = [toComparable(a), toComparable(b)];
+	return x < y ? -1 : x > y ? 1 : 0;
+}
+
+// filter[field]=a,b keeps the items whose field is one of the values, range[field]=min,max those within
+function matchesQuery(item: MockItem, query: URLSearchParams) {
+	for (const [key, value] of query) {
+		const [, kind, field] = /^(filter|range)\[(.+)\]$/.exec(key) ?? [];
+		if (kind === "filter" && !value.split(",").includes(String(item[field]))) {
+			return false;
+		}
+		if (kind === "range") {
+			const [min, max] = value.split(",");
+			if (compare(item[field], min) < 0 || compare(item[field], max) > 0) {
+				return false;
+			}
+		}
+	}
+	return true;
+}
+
+// sort=-created_at,login, a leading dash sorts descending
+function sortItems(items: MockItem[], sort: string | null) {
+	const fields = (sort ?? "").split(",").filter(Boolean);
+	return [...items].sort((a, b) => {
+		for (const field of fields) {
+			const name = field.replace(/^-/, "");
+			const order = compare(a[name], b[name]);
+			if (order) {
+				return field.startsWith("-") ? -order : order;
+			}
+		}
+		return 0;
+	});
+}
+
+export class MockIntraServer {
+	public readonly requests: MockRequest[];
+
+	private conf: MockIntraServerConf;
+	private server: Server;
+	private address: string | null;
+	private faults: Array<MockFault & { remaining: number }>;
+	private tokens: Map<string, IssuedToken>;
+	private refreshTokens: Map<string, IssuedRefreshToken>;
+	private codes: Map<string, AuthorizationCode>;
+	private nextId: number;
+
+	constructor(conf: Partial<MockIntraServerConf> = {}) {
+		this.conf = { ...defaultConf, ...conf };
+		this.requests = [];
+		this.address = null;
+		this.faults = [];
+		this.tokens = new Map();
+		this.refreshTokens = new Map();
+		this.codes = new Map();
+
+		const ids = Object.values(this.conf.resources)
+			.flat()
+			.map((item) => Number(item.id))
+			.filter((id) => !isNaN(id));
+		this.nextId = Math.max(0, ...ids) + 1;
+
+		this.server = createServer((req, res) => {
+			const url = new URL(req.url ?? "/", "http://localhost");
+			const method = req.method ?? "GET";
+			const reply: Reply = (status, body, headers = {}) => {
+				let content = body === undefined ? "" : JSON.stringify(body);
+				// GET responses carry an ETag, a matching If-None-Match gets a 304 without body
+				if (method === "GET" && status === 200) {
+					const etag = `W/"${createHash("sha1").update(content).digest("hex")}"`;
+					headers = { ...headers, etag };
+					if (req.headers["if-none-match"] === etag) {
+						status = 304;
+						content = "";
+					}
+				}
+				this.requests.push({
+					method,
+					path: url.pathname,
+					query: Object.fromEntries(url.searchParams),
+					status,
+				});
+				res.writeHead(status, { "content-type": "application/json", ...headers });
+				res.end(content);
+			};
+
+			this.handle(req, method, url, reply).catch((err) => {
+				if (!res.headersSent) {
+					reply(500, { error: "Internal Server Error", message: String(err) });
+				}
+			});
+		});
+	}
+
+	public async listen(port = 0): Promise<string> {
+		await new Promise<void>((resolve, reject) => {
+			this.server.once("error", reject);
+			this.server.listen(port, "127.0.0.1", () => resolve());
+		});
+
+		this.address = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+		return this.address;
+	}
+
+	public async close() {
+		this.server.closeAllConnections();
+		await new Promise<void>((resolve) => this.server.close(() => resolve()));
+		this.address = null;
+	}
+
+	public get url(): string {
+		if (!this.address) {
+			throw new Error(`The mock server is not listening`);
+		}
+		return this.address;
+	}
+
+	public clientConf(): Pick<
+		FortytwoIntraClientConf,
+		"base_url" | "token_url" | "oauth_url" | "token_info_url"
+	> {
+		return {
+			base_url: `${this.url}/v2/`,
+			token_url: `${this.url}/oauth/token`,
+			oauth_url: `${this.url}/oauth/authorize`,
+			token_info_url: `${this.url}/oauth/token/info`,
+		};
+	}
+
+	public v3ClientConf(): { base_url: string; token_url: string } {
+		return { base_url: `${this.url}/v3/`, token_url: `${this.url}/oauth/token` };
+	}
+
+	// The next matching requests fail with the given status
+	public inject(fault: MockFault) {
+		this.faults.push({ ...fault, remaining: fault.times ?? 1 });
+		return this;
+	}
+
+	// Every issued access token is rejected from now on
+	public revokeTokens() {
+		this.tokens.clear();
+	}
+
+	public reset() {
+		this.faults = [];
+		this.requests.length = 0;
+	}
+
+	private takeFault(method: string, url: URL) {
+		const path = url.pathname;
+		const index = this.faults.findIndex(
+			(fault) =>
+				(!fault.method || fault.method.toUpperCase() === method) &&
+				(fault.path === undefined ||
+					(typeof fault.path === "string" ? fault.path === path : fault.path.test(path))) &&
+				Object.entries(fault.query ?? {}).every(
+					([name, value]) => url.searchParams.get(name) === value,
+				),
+		);
+		if (index === -1) {
+			return null;
+		}
+
+		const fault = this.faults[index];
+		if (--fault.remaining <= 0) {
+			this.faults.splice(index, 1);
+		}
+		return fault;
+	}
+
+	private async handle(req: IncomingMessage, method: string, url: URL, reply: Reply) {
+		const fault = this.takeFault(method, url);
+		if (fault) {
+			const headers: Record<string, string> =
+				fault.status === 429 ? { "retry-after": String(fault.retryAfter ?? 1) } : {};
+			return reply(fault.status, fault.body ?? { error: STATUS_CODES[fault.status] }, headers);
+		}
+
+		if (url.pathname === "/oauth/token" && method === "POST") {
+			return this.token(req, reply);
+		}
+		if (url.pathname === "/oauth/authorize" && method === "GET") {
+			return this.authorize(url, reply);
+		}
+
+		const token = this.authenticate(req, url);
+		if (url.pathname === "/oauth/token/info" && method === "GET") {
+			return this.tokenInfo(token, reply);
+		}
+
+		const api = /^\/(v2|v3)\/(.+?)\/?$/.exec(url.pathname);
+		if (!api) {
+			return reply(404, { error: "Not Found" });
+		}
+		if (!token) {
+			return reply(401, { error: "Not authorized" });
+		}
+		return this.api(api[1] as "v2" | "v3", api[2], method, await readBody(req), url, token, reply);
+	}
+
+	private getClient(req: IncomingMessage, body: Record<string, any>): MockApplication | null {
+		let { client_id, client_secret } = body;
+
+		// The V3 password grant authenticates the client with Basic auth
+		const basic = /^Basic (.+)$/.exec(req.headers.authorization ?? "");
+		if (basic) {
+			[client_id, client_secret] = Buffer.from(basic[1], "base64").toString("utf8").split(":");
+		}
+
+		if (typeof client_id !== "string") {
+			return null;
+		}
+		if (!this.conf.applications.length) {
+			return { client_id, client_secret };
+		}
+		return (
+			this.conf.applications.find(
+				(app) => app.client_id === client_id && app.client_secret === client_secret,
+			) ?? null
+		);
+	}
+
+	private issue(
+		client_id: string,
+		user: MockUser | null,
+		scopes: string[],
+		format: TokenFormat,
+	): Record<string, unknown> {
+		const now = Date.now();
+		const access_token = randomBytes(32).toString("hex");
+		const token: IssuedToken = {
+			client_id,
+			user,
+			scopes,
+			created_at: now,
+			expires_at: now + this.conf.tokenTtl * 1000,
+		};
+		this.tokens.set(access_token, token);
+
+		const issued = {
+			access_token,
+			token_type: "bearer",
+			expires_in: this.conf.tokenTtl,
+			scope: scopes.join(" "),
+			created_at: Math.floor(now / 1000),
+		};
+		if (format === "app") {
+			return issued;
+		}
+
+		const refresh_token = randomBytes(32).toString("hex");
+		this.refreshTokens.set(refresh_token, {
+			...token,
+			expires_at: now + this.conf.refreshTokenTtl * 1000,
+			format,
+		});
+		if (format === "user") {
+			return { ...issued, refresh_token };
+		}
+
+		// Keycloak response of the V3 token endpoint
+		return {
+			access_token,
+			expires_in: this.conf.tokenTtl,
+			refresh_expires_in: this.conf.refreshTokenTtl,
+			refresh_token,
+			token_type: "Bearer",
+			"not-before-policy": 0,
+			session_state: randomUUID(),
+			scope: scopes.join(" "),
+		};
+	}
+
+	private async token(req: IncomingMessage, reply: Reply) {
+		const body = await readBody(req);
+		const client = this.getClient(req, body);
+		if (!client) {
+			return reply(401, {
+				error: "invalid_client",
+				error_description: "Client authentication failed due to unknown client.",
+			});
+		}
+
+		const invalidGrant = (description: string) =>
+			reply(400, { error: "invalid_grant", error_description: description });
+
+		switch (body.grant_type) {
+			case "client_credentials":
+				return reply(200, this.issue(client.client_id, null, getScopes(body.scope), "app"));
+
+			case "authorization_code": {
+				const code = this.codes.get(body.code);
+				this.codes.delete(body.code);
+				if (
+					!code ||
+					code.client_id !== client.client_id ||
+					code.redirect_uri !== body.redirect_uri
+				) {
+					return invalidGrant("The provided authorization grant is invalid.");
+				}
+
+				const verifier = createHash("sha256")
+					.update(String(body.code_verifier ?? ""))
+					.digest("base64url");
+				if (code.code_challenge && verifier !== code.code_challenge) {
+					return invalidGrant("The code verifier does not match the code challenge.");
+				}
+				return reply(200, this.issue(client.client_id, code.user, code.scopes, "user"));
+			}
+
+			case "password": {
+				const user = this.conf.users.find(
+					(user) => user.login === body.username && user.password === body.password,
+				);
+				if (!user) {
+					return reply(401, {
+						error: "invalid_grant",
+						error_description: "Invalid user credentials",
+					});
+				}
+				return reply(200, this.issue(client.client_id, user, ["profile", "email"], "v3"));
+			}
+
+			case "refresh_token": {
+				const refresh = this.refreshTokens.get(body.refresh_token);
+				if (!refresh || refresh.client_id !== client.client_id) {
+					return invalidGrant("The refresh token is invalid.");
+				}
+
+				// Refresh tokens are single use
+				this.refreshTokens.delete(body.refresh_token);
+				if (refresh.expires_at <= Date.now()) {
+					return invalidGrant("The refresh token expired.");
+				}
+				return reply(
+					200,
+					this.issue(client.client_id, refresh.user, refresh.scopes, refresh.format),
+				);
+			}
+
+			default:
+				return reply(400, { error: "unsupported_grant_type" });
+		}
+	}
+
+	// The first user approves every authorization request
+	private authorize(url: URL, reply: Reply) {
+		const query = url.searchParams;
+		const client_id = query.get("client_id") ?? "";
+		const redirect_uri = query.get("redirect_uri");
+		const known =
+			!this.conf.applications.length ||
+			this.conf.applications.some((app) => app.client_id === client_id);
+
+		if (!known || !redirect_uri || query.get("response_type") !== "code") {
+			return reply(400, { error: "invalid_request" });
+		}
+
+		const location = new URL(redirect_uri);
+		const user = this.conf.users[0];
+		if (!user) {
+			location.searchParams.set("error", "access_denied");
+		} else {
+			const code = randomBytes(16).toString("hex");
+			this.codes.set(code, {
+				client_id,
+				redirect_uri,
+				user,
+				scopes: getScopes(query.get("scope")),
+				code_challenge: query.get("code_challenge"),
+			});
+			location.searchParams.set("code", code);
+		}
+
+		const state = query.get("state");
+		if (state !== null) {
+			location.searchParams.set("state", state);
+		}
+		return reply(302, undefined, { location: location.toString() });
+	}
+
+	private authenticate(req: IncomingMessage, url: URL): IssuedToken | null {
+		const bearer = /^Bearer (.+)$/.exec(req.headers.authorization ?? "")?.[1];
+		const accessToken = bearer ?? url.searchParams.get("access_token");
+		const token = accessToken ? this.tokens.get(accessToken) : undefined;
+
+		if (!token || token.expires_at <= Date.now()) {
+			return null;
+		}
+		return token;
+	}
+
+	private tokenInfo(token: IssuedToken | null, reply: Reply) {
+		if (!token) {
+			return reply(401, {
+				error: "invalid_token",
+				error_description: "The access token is invalid",
+			});
+		}
+
+		return reply(200, {
+			resource_owner_id: token.user?.id ?? null,
+			scopes: token.scopes,
+			expires_in_seconds: Math.round((token.expires_at - Date.now()) / 1000),
+			application: { uid: token.client_id },
+			created_at: Math.floor(token.created_at / 1000),
+		});
+	}
+
+	private api(
+		version: "v2" | "v3",
+		path: string,
+		method: string,
+		body: Record<string, any>,
+		url: URL,
+		token: IssuedToken,
+		reply: Reply,
+	) {
+		if (path === "me" && method === "GET") {
+			return token.user
+				? reply(200, withoutPassword(token.user))
+				: reply(403, { error: "Forbidden" });
+		}
+
+		const list = this.conf.resources[path];
+		if (list && method === "GET") {
+			return this.page(version, list, url, reply);
+		}
+		if (list && method === "POST") {
+			const item = { ...body, id: this.nextId++ };
+			list.push(item);
+			return reply(201, item);
+		}
+
+		const parent = this.conf.resources[path.slice(0, path.lastIndexOf("/"))];
+		const id = path.slice(path.lastIndexOf("/") + 1);
+		const index = parent?.findIndex((item) => String(item.id) === id || item.login === id) ?? -1;
+		if (index === -1) {
+			return reply(404, {});
+		}
+
+		switch (method) {
+			case "GET":
+				return reply(200, parent[index]);
+			case "PUT":
+			case "PATCH":
+				Object.assign(parent[index], body, { id: parent[index].id });
+				return reply(204);
+			case "DELETE":
+				parent.splice(index, 1);
+				return reply(204);
+			default:
+				return reply(405, { error: "Method Not Allowed" });
+		}
+	}
+
+	// v2 lists are paginated with Link and X-Total headers, v3 lists with an items/total body
+	private page(version: "v2" | "v3", list: MockItem[], url: URL, reply: Reply) {
+		const query = url.searchParams;
+		const perPageParam = version === "v2" ? "per_page" : "limit";
+		const perPage = Math.min(
+			Math.max(parseInt(query.get(perPageParam) ?? "", 10) || 30, 1),
+			this.conf.maxPerPage,
+		);
+		const page = Math.max(parseInt(query.get("page") ?? "", 10) || 1, 1);
+
+		const items = sortItems(
+			list.filter((item) => matchesQuery(item, query)),
+			query.get("sort"),
+		);
+		const slice = items.slice((page - 1) * perPage, page * perPage);
+
+		if (version === "v3") {
+			return reply(200, { items: slice, total: items.length, page, limit: perPage });
+		}
+
+		const lastPage = Math.max(Math.ceil(items.length / perPage), 1);
+		const link = (rel: string, target: number) => {
+			const href = new URL(url.pathname, this.url);
+			href.search = query.toString();
+			href.searchParams.set("page", String(target));
+			href.searchParams.set("per_page", String(perPage));
+			return `<${href}>; rel="${rel}"`;
+		};
+
+		const links = [];
+		if (page > 1) {
+			links.push(link("first", 1), link("prev", page - 1));
+		}
+		if (page < lastPage) {
+			links.push(link("next", page + 1));
+		}
+		const headers: Record<string, string> = {
+			"x-page": String(page),
+			"x-per-page": String(perPage),
+		};
+		if (this.conf.totals) {
+			links.push(link("last", lastPage));
+			headers["x-total"] = String(items.length);
+		}
+
+		return reply(200, slice, { ...headers, link: links.join(", ") });
+	}
+}
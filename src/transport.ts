@@ -0,0 +1,1281 @@
+import axios, {
+	AxiosAdapter,
+	AxiosError,
+	AxiosHeaders,
+	AxiosInstance,
+	AxiosResponse,
+	isAxiosError,
+} from "axios";
+import { createHash } from "crypto";
+import z from "zod";
+import { inputOptions, itemOf, Method, paginateOptions, reqOptions, userToken } from "./types";
+import {
+	defaultLogRedaction,
+	getErrorLogRecord,
+	getLogRecord,
+	IntraLogger,
+	LogRecord,
+	LogRedaction,
+	prettyLogger,
+} from "./lib/logs";
+import { defaultRetryPolicy, getRetryDelay, isRetryable, RetryPolicy, sleep } from "./lib/retry";
+import { abortable, getAbortError, withDeadline } from "./lib/abort";
+import {
+	getLastPage,
+	getPageItems,
+	getPageLinks,
+	PagedResult,
+	PaginationFormat,
+	PaginationMeta,
+} from "./lib/pagination";
+import { RateLimiter, RateLimitState } from "./lib/rateLimiter";
+import { HookContext, HookRunner, IntraHooks } from "./lib/hooks";
+import { CacheEntry, CacheStore, getCacheKey, matchesCacheKey } from "./lib/cache";
+import { validate, ValidationMode, ValidationResult } from "./lib/validation";
+import { serializeQuery } from "./lib/query";
+import { CheckpointStore } from "./lib/checkpointStore";
+import {
+	decodeResumeToken,
+	encodeResumeToken,
+	FailedPage,
+	PartialResult,
+	ResumeState,
+} from "./lib/resume";
+import { AuthContext, AuthStrategy, StaticTokenAuth } from "./auth";
+import { createHttpError } from "./errors/httpError";
+import { FortytwoIntraClientValidationError } from "./errors/validationError";
+import { FortytwoIntraClientQueryError } from "./errors/queryError";
+import { FortytwoIntraClientPaginationError } from "./errors/paginationError";
+
+export interface IntraTransportConf {
+	base_url: string | undefined;
+	rateLimitMaxRequests: number;
+	rateLimitPerMilliseconds: number;
+	rateLimitAdaptive: boolean;
+	rateLimitLowQuotaRatio: number;
+	priorityAging: number;
+	pagination: Partial<PaginationFormat>;
+	maxRetry: number;
+	retry: Partial<RetryPolicy>;
+	logLine: boolean;
+	errLogBody: boolean;
+	logger: IntraLogger | null;
+	logRedaction: Partial<LogRedaction>;
+	hooks: IntraHooks[];
+	cache: CacheStore | null;
+	cacheTtl: number;
+	coalesce: boolean;
+	timeout: number;
+	requestTimeout: number;
+	// `safe` changes the return type, it is only available per call
+	validation: Exclude<ValidationMode, "safe">;
+	// Sends the requests instead of axios, e.g. the fixtures of the testing module
+	adapter: AxiosAdapter | null;
+}
+
+// Pagination of the v2 API: a plain list, X-Total and X-Per-Page headers and a Link header
+const defaultPagination: PaginationFormat = {
+	pageParam: "page",
+	perPageParam: "per_page",
+	firstPage: 1,
+	itemsPath: null,
+	totalPath: null,
+	totalHeader: "X-Total",
+	perPageHeader: "X-Per-Page",
+	linkHeader: true,
+};
+
+const defaultConf: IntraTransportConf = {
+	base_url: undefined,
+	rateLimitMaxRequests: 2,
+	rateLimitPerMilliseconds: 1200,
+	rateLimitAdaptive: true,
+	rateLimitLowQuotaRatio: 0.1,
+	priorityAging: 5000,
+	pagination: {},
+	maxRetry: 5,
+	retry: {},
+	logLine: true,
+	errLogBody: true,
+	logger: null,
+	logRedaction: {},
+	hooks: [],
+	cache: null,
+	cacheTtl: 60000,
+	coalesce: false,
+	timeout: 0,
+	requestTimeout: 30000,
+	validation: "throw",
+	adapter: null,
+};
+
+type getOptions = Omit<inputOptions, "body" | "perPage" | "maxPages">;
+type sendOptions = Omit<inputOptions, "perPage" | "maxPages">;
+type getAllOptions = Omit<inputOptions, "body"> & {
+	pagination?: Partial<PaginationFormat>;
+	// Fail with a FortytwoIntraClientPaginationError rather than return missing items
+	strict?: boolean;
+};
+type metaOptions = {
+	// Resolve with the items and the pagination metadata
+	meta: true;
+	validation?: Exclude<ValidationMode, "safe">;
+};
+type partialOptions = {
+	// Resolve with the pages fetched so far instead of failing with the first page error
+	partial: true;
+	// Token of a previous partial result, only its failed pages are fetched
+	resumeToken?: string;
+	validation?: Exclude<ValidationMode, "safe">;
+};
+type pageOptions = paginateOptions & { pagination?: Partial<PaginationFormat> };
+// Items are yielded one by one, there is no page to wrap in a `safe` result
+type iterateOptions = pageOptions & { validation?: Exclude<ValidationMode, "safe"> };
+type syncOptions = Omit<iterateOptions, "lookahead" | "maxPages"> & {
+	// Where to start when there is no checkpoint yet, defaults to the beginning
+	since?: Date | string;
+	checkpointStore?: CheckpointStore;
+	// Defaults to the endpoint and its query
+	checkpointKey?: string;
+};
+
+type SyncedItem = { id: number | string; updated_at: string };
+
+// Timestamp of a synced item, the high-water mark is built from it
+function getUpdatedAt(item: SyncedItem): number {
+	const time = Date.parse(item?.updated_at);
+	if (Number.isNaN(time)) {
+		throw new Error("Items must have an updated_at to be synced");
+	}
+	return time;
+}
+
+// An application of the pool, with its own token and rate limiter
+type AppRoute = {
+	auth: AuthStrategy;
+	rateLimiter: RateLimiter;
+	axiosInstance: AxiosInstance;
+	authContext: AuthContext;
+	revoked: boolean;
+	// Requests picked for this application and not settled yet
+	inflight: number;
+};
+
+export type AppState = {
+	id: string | null;
+	revoked: boolean;
+	rateLimit: RateLimitState;
+};
+
+function getCachedResponse(entry: CacheEntry): AxiosResponse {
+	return {
+		data: entry.data,
+		status: entry.status,
+		statusText: "OK",
+		headers: entry.headers,
+		config: { headers: new AxiosHeaders() },
+	};
+}
+
+function isRevoked(err: unknown): err is AxiosError {
+	if (!isAxiosError(err) || !err.response) {
+		return false;
+	}
+	const error = err.response.data?.error;
+	return (
+		err.response.status === 401 || error === "invalid_client" || error === "unauthorized_client"
+	);
+}
+
+export class IntraTransport {
+	protected base_url: string | undefined;
+	protected axiosInstance: AxiosInstance;
+	protected hooks: HookRunner;
+
+	private routes: AppRoute[];
+	private pagination: PaginationFormat;
+	private maxRetry: number;
+	private retry: RetryPolicy;
+	private logLine: boolean;
+	private errLogBody: boolean;
+	private logger: IntraLogger;
+	private logRedaction: LogRedaction;
+	private cache: CacheStore | null;
+	private cacheTtl: number;
+	private coalesce: boolean;
+	private timeout: number;
+	private requestTimeout: number;
+	private validation: ValidationMode;
+	private pending: Map<string, { request: Promise<AxiosResponse>; signal?: AbortSignal }>;
+
+	constructor(auth: AuthStrategy | AuthStrategy[], conf: Partial<IntraTransportConf> = {}) {
+		const config: IntraTransportConf = { ...defaultConf, ...conf };
+
+		this.base_url = config.base_url;
+		this.pagination = { ...defaultPagination, ...config.pagination };
+
+		this.maxRetry = config.maxRetry;
+		this.retry = { ...defaultRetryPolicy, ...config.retry };
+		this.logLine = config.logLine;
+		this.errLogBody = config.errLogBody;
+		this.logger = config.logger ?? prettyLogger;
+		this.logRedaction = { ...defaultLogRedaction, ...config.logRedaction };
+		this.hooks = new HookRunner(config.hooks);
+		this.cache = config.cache;
+		this.cacheTtl = config.cacheTtl;
+		this.coalesce = config.coalesce;
+		this.timeout = config.timeout;
+		this.requestTimeout = config.requestTimeout;
+		this.validation = config.validation;
+		this.pending = new Map();
+
+		const strategies = Array.isArray(auth) ? auth : [auth];
+		if (!strategies.length) {
+			throw new Error(`At least one authentication strategy is required`);
+		}
+
+		// Each application gets its own rate-limited axios instance
+		this.routes = strategies.map((strategy) => {
+			const rateLimiter = new RateLimiter({
+				maxRequests: config.rateLimitMaxRequests,
+				perMilliseconds: config.rateLimitPerMilliseconds,
+				adaptive: config.rateLimitAdaptive,
+				lowQuotaRatio: config.rateLimitLowQuotaRatio,
+				aging: config.priorityAging,
+			});
+			const axiosInstance = rateLimiter.attach(
+				axios.create({ adapter: config.adapter ?? undefined }),
+			);
+
+			return {
+				auth: strategy,
+				rateLimiter,
+				axiosInstance,
+				authContext: {
+					http: axiosInstance,
+					onTokenRefresh: (event) => this.hooks.onTokenRefresh(event),
+				},
+				revoked: false,
+				inflight: 0,
+			};
+		});
+		this.axiosInstance = this.routes[0].axiosInstance;
+	}
+
+	private pickRoute(token: userToken | undefined): AppRoute {
+		// User tokens were issued to the primary application
+		if (token || this.routes.length === 1) {
+			return this.routes[0];
+		}
+
+		let best: { route: AppRoute; score: number } | null = null;
+		for (const route of this.routes) {
+			if (route.revoked) continue;
+
+			const state = route.rateLimiter.state;
+			// Unknown quotas rank first, ties go to the application with the fewest pending requests
+			const score =
+				state.pausedUntil !== null
+					? -Infinity
+					: (state.hourly.remaining ?? Infinity) - route.inflight;
+			if (
+				!best ||
+				score > best.score ||
+				(score === best.score && route.inflight < best.route.inflight)
+			) {
+				best = { route, score };
+			}
+		}
+		return best ? best.route : this.routes[0];
+	}
+
+	private async authorize(options: reqOptions, start: number) {
+		for (;;) {
+			const route = this.pickRoute(options.token);
+			route.inflight++;
+			try {
+				const auth = this.getAuth(route, options.token);
+				const accessToken = await abortable(auth.getAccessToken(route.authContext), options.signal);
+				return { route, accessToken };
+			} catch (err) {
+				route.inflight--;
+
+				// Credentials rejected by the token endpoint: fail over to the other applications
+				if (options.token || !isRevoked(err)) {
+					throw err;
+				}
+				// Concurrent requests sharing the failed token request only retry
+				if (route.revoked) continue;
+
+				const active = this.routes.filter((r) => !r.revoked).length;
+				if (active <= 1) {
+					throw err;
+				}
+				route.revoked = true;
+
+				if (options.logLine) {
+					const record = getErrorLogRecord(
+						err,
+						options,
+						Date.now() - start,
+						true,
+						this.logRedaction,
+						this.getTokenKind(options),
+					);
+					const id = route.auth.id ?? "application";
+					this.logger.warn(
+						{ ...record, method: "POST" },
+						`${id} credentials rejected, failing over`,
+					);
+				}
+			}
+		}
+	}
+
+	private getAuth(route: AppRoute, token: userToken | undefined): AuthStrategy {
+		if (!token) {
+			return route.auth;
+		}
+		// User sessions refresh their token when needed
+		if ("getAccessToken" in token) {
+			return token;
+		}
+		return new StaticTokenAuth(token.access_token);
+	}
+
+	private getTokenKind(options: Pick<reqOptions, "token">): LogRecord["tokenKind"] {
+		return options.token ? "user" : (this.routes[0].auth.kind ?? "app");
+	}
+
+	// Identifies a GET for the cache and for coalescing
+	private getRequestKey(
+		url: URL,
+		query: Record<string, any>,
+		options: reqOptions,
+		route: AppRoute,
+		accessToken: string,
+	): string | null {
+		if (options.method !== "GET") {
+			return null;
+		}
+
+		// Strategies name whose data their tokens see, other tokens are keyed by a hash of the token
+		const kind = options.token ? "user" : (route.auth.kind ?? "app");
+		const subject =
+			(options.token ? undefined : route.auth.cacheSubject) ??
+			`${kind}:${createHash("sha256").update(accessToken).digest("hex").slice(0, 32)}`;
+		return getCacheKey(subject, url, query);
+	}
+
+	// The cache is best-effort, a failing store is logged and the request goes on without it
+	private async readCache(key: string, url: URL, options: reqOptions) {
+		try {
+			return await this.cache!.get(key);
+		} catch (err) {
+			this.logCacheError(err, url, options);
+			return null;
+		}
+	}
+
+	private async writeCache(key: string, entry: CacheEntry, url: URL, options: reqOptions) {
+		try {
+			await this.cache!.set(key, entry);
+		} catch (err) {
+			this.logCacheError(err, url, options);
+		}
+	}
+
+	private async storeResponse(
+		key: string,
+		url: URL,
+		res: AxiosResponse,
+		cached: CacheEntry | null,
+		options: reqOptions,
+	): Promise<AxiosResponse> {
+		const ttl = options.cacheTtl ?? this.cacheTtl;
+		const headers = Object.fromEntries(
+			Object.entries({ ...res.headers }).filter(([name]) => name !== "set-cookie"),
+		);
+
+		// Not modified: keep the cached body and extend its lifetime
+		if (res.status === 304 && cached) {
+			const entry = { ...cached, headers: { ...cached.headers, ...headers } };
+			entry.expires_at = Date.now() + ttl;
+			await this.writeCache(key, entry, url, options);
+			return { ...res, data: entry.data, headers: entry.headers };
+		}
+
+		const etag = typeof headers["etag"] === "string" ? headers["etag"] : null;
+		const lastModified =
+			typeof headers["last-modified"] === "string" ? headers["last-modified"] : null;
+		// Without validators an expired entry is useless
+		if (ttl <= 0 && !etag && !lastModified) {
+			return res;
+		}
+
+		const entry = {
+			status: res.status,
+			data: res.data,
+			headers,
+			expires_at: Date.now() + ttl,
+			etag,
+			last_modified: lastModified,
+		};
+		await this.writeCache(key, entry, url, options);
+		return res;
+	}
+
+	private async fetch(
+		url: URL,
+		options: reqOptions,
+		ctx: HookContext,
+		route: AppRoute,
+		accessToken: string,
+	): Promise<{ res: AxiosResponse; reused: boolean }> {
+		const { query } = options;
+
+		// Extract query parameters from URL and combine with options.query
+		const urlParams: Record<string, any> = {};
+		url.searchParams.forEach((value, key) => {
+			urlParams[key] = value;
+		});
+
+		// Combine URL params with query params (query params take precedence)
+		const combinedParams = { ...urlParams, ...query };
+
+		// Create clean URL without query parameters
+		const cleanUrl = new URL(url);
+		cleanUrl.search = "";
+
+		const key = this.getRequestKey(cleanUrl, combinedParams, options, route, accessToken);
+		const cacheKey = key && this.cache && options.cache !== false ? key : null;
+		const coalesceKey = key && (options.coalesce ?? this.coalesce) ? key : null;
+
+		// Fresh entries are returned without a request, stale ones are revalidated
+		const cached = cacheKey ? await this.readCache(cacheKey, cleanUrl, options) : null;
+		if (cached && cached.expires_at > Date.now()) {
+			return { res: getCachedResponse(cached), reused: true };
+		}
+
+		// Identical GETs in flight share a single response
+		const pending = coalesceKey ? this.pending.get(coalesceKey) : undefined;
+		if (pending) {
+			try {
+				return { res: await abortable(pending.request, options.signal), reused: true };
+			} catch (err) {
+				// A request cancelled by its own caller is sent again for the others
+				if (!pending.signal?.aborted || options.signal?.aborted) {
+					throw err;
+				}
+			}
+		}
+
+		ctx.url = cleanUrl;
+		ctx.query = combinedParams;
+		ctx.headers.Authorization = `Bearer ${accessToken}`;
+		const request = this.exchange(options, ctx, route, cacheKey, cached);
+
+		if (coalesceKey) {
+			this.pending.set(coalesceKey, { request, signal: options.signal });
+			const settle = () => {
+				if (this.pending.get(coalesceKey)?.request === request) {
+					this.pending.delete(coalesceKey);
+				}
+			};
+			request.then(settle, settle);
+		}
+
+		return { res: await request, reused: false };
+	}
+
+	private async exchange(
+		options: reqOptions,
+		ctx: HookContext,
+		route: AppRoute,
+		cacheKey: string | null,
+		cached: CacheEntry | null,
+	): Promise<AxiosResponse> {
+		if (cached?.etag) {
+			ctx.headers["If-None-Match"] = cached.etag;
+		}
+		if (cached?.last_modified) {
+			ctx.headers["If-Modified-Since"] = cached.last_modified;
+		}
+
+		// Let hooks inspect and modify the request
+		await this.hooks.beforeRequest(ctx);
+
+		// Use the rate-limited axios instance of the application
+		const res = await route.axiosInstance.request({
+			method: options.method.toLowerCase(),
+			url: ctx.url.toString(),
+			headers: ctx.headers,
+			params: ctx.query,
+			data: options.body ? options.body : undefined,
+			priority: options.priority ?? "normal",
+			signal: options.signal,
+			timeout: this.requestTimeout,
+			validateStatus: (status) => (status >= 200 && status < 300) || (!!cached && status === 304),
+		});
+
+		return cacheKey ? this.storeResponse(cacheKey, ctx.url, res, cached, options) : res;
+	}
+
+	private async reqHandler(url: URL, options: reqOptions): Promise<AxiosResponse> {
+		const start = Date.now();
+		const ctx: HookContext = {
+			method: options.method,
+			url: url,
+			query: {},
+			headers: {},
+			attempt: options.attempt,
+			tokenKind: this.getTokenKind(options),
+			state: {},
+		};
+
+		let route: AppRoute | null = null;
+		try {
+			options.signal?.throwIfAborted();
+			const authorized = await this.authorize(options, start);
+			route = authorized.route;
+			const { res, reused } = await this.fetch(
+				url,
+				options,
+				ctx,
+				route,
+				authorized.accessToken,
+			).finally(() => authorized.route.inflight--);
+			// Cache hits and coalesced requests were not sent by this call
+			if (reused) {
+				return res;
+			}
+
+			await this.hooks.afterResponse(ctx, res);
+			this.logSuccess(res, options, Date.now() - start);
+
+			return res;
+		} catch (err) {
+			if (options.signal?.aborted) {
+				throw await this.hooks.onError(ctx, getAbortError(options.signal.reason));
+			}
+
+			if (isAxiosError(err)) {
+				const { attempt, maxRetry } = options;
+				const status = err.response?.status;
+				const policy = { ...this.retry, ...options.retry };
+				const retrying =
+					maxRetry > 0 && attempt < maxRetry && isRetryable(err, options.method, policy);
+
+				this.logError(err, options, Date.now() - start, retrying);
+
+				if (retrying) {
+					options.attempt++;
+					const delay = status === 401 ? 0 : getRetryDelay(policy, options.attempt);
+					await this.hooks.onRetry(ctx, err, delay);
+
+					if (status === 401) {
+						const authorization = String(err.config?.headers?.Authorization ?? "");
+						const rejected = authorization.replace(/^Bearer /, "");
+						// The token request itself failed when no application was picked
+						route ??= this.pickRoute(options.token);
+						await this.getAuth(route, options.token).invalidate(rejected, route.authContext);
+					} else {
+						// An abort during the delay is reported by the next attempt
+						await sleep(delay, options.signal).catch(() => {});
+					}
+					return this.reqHandler(url, options);
+				} else {
+					const error = createHttpError(err, {
+						method: options.method,
+						url: ctx.url.toString(),
+						query: ctx.query,
+						attempts: options.attempt + 1,
+					});
+					throw await this.hooks.onError(ctx, error);
+				}
+			} else {
+				throw await this.hooks.onError(ctx, err);
+			}
+		}
+	}
+
+	private logSuccess(res: AxiosResponse, options: reqOptions, duration: number) {
+		if (!options.logLine) return;
+
+		const record = getLogRecord(res, options, duration, this.getTokenKind(options));
+		this.logger.info(record, `${record.status} ${record.method} ${record.path}`);
+	}
+
+	private logError(err: AxiosError, options: reqOptions, duration: number, retrying: boolean) {
+		if (!options.logLine) return;
+
+		const record = getErrorLogRecord(
+			err,
+			options,
+			duration,
+			retrying,
+			this.logRedaction,
+			this.getTokenKind(options),
+		);
+		const message = `${record.status ?? "ERR"} ${record.method} ${record.path}`;
+		if (retrying) {
+			this.logger.warn(record, message);
+		} else {
+			this.logger.error(record, message);
+		}
+	}
+
+	private logCacheError(err: unknown, url: URL, options: reqOptions) {
+		if (!(options.logLine ?? this.logLine)) return;
+
+		const error = err instanceof Error ? err.message : String(err);
+		const record: LogRecord = {
+			method: options.method,
+			path: url.pathname,
+			query: options.query ?? {},
+			status: null,
+			duration: 0,
+			attempt: options.attempt,
+			maxRetry: options.maxRetry,
+			page: null,
+			tokenKind: this.getTokenKind(options),
+			error,
+		};
+		this.logger.warn(record, `Cache store failed for ${options.method} ${url.pathname}: ${error}`);
+	}
+
+	private logInvalid(
+		error: FortytwoIntraClientValidationError,
+		method: Method,
+		url: URL,
+		options: inputOptions,
+	) {
+		if (!(options.logLine ?? this.logLine)) return;
+
+		const record: LogRecord = {
+			method,
+			path: url.pathname,
+			query: options.query ?? {},
+			status: null,
+			duration: 0,
+			attempt: 0,
+			maxRetry: options.maxRetry ?? this.maxRetry,
+			page: error.page === null ? null : { current: error.page, last: null },
+			tokenKind: this.getTokenKind(options),
+			error: error.message,
+			body: error.schemaErrors.issues,
+		};
+		this.logger.warn(record, `${error.message} ${method} ${url.pathname}`);
+	}
+
+	private validate(
+		data: unknown,
+		method: Method,
+		url: URL,
+		options: inputOptions & { schema?: z.ZodType },
+		page: number | null = null,
+	) {
+		const mode = options.validation ?? this.validation;
+		return validate(data, options.schema, mode, page, (error) => {
+			this.logInvalid(error, method, url, options);
+			options.onInvalid?.(error);
+		});
+	}
+
+	private async send(
+		method: Method,
+		endpoint: URL | string,
+		options: sendOptions & { schema?: z.ZodType },
+	) {
+		if (endpoint instanceof URL === false) {
+			endpoint = new URL(endpoint, this.base_url);
+		}
+
+		// Invalid queries are rejected before anything is queued
+		const query = serializeQuery(options.query);
+		const deadline = withDeadline(options.signal, options.timeout ?? this.timeout);
+		const res = await this.reqHandler(endpoint, {
+			method,
+			attempt: 0,
+			maxRetry: this.maxRetry,
+			logLine: this.logLine,
+			errLogBody: this.errLogBody,
+			...options,
+			signal: deadline.signal,
+			query,
+		}).finally(deadline.clear);
+
+		return this.validate(res.data, method, endpoint, options);
+	}
+
+	private pageFetcher(endpoint: URL | string, options: getAllOptions) {
+		const url = endpoint instanceof URL ? new URL(endpoint) : new URL(endpoint, this.base_url);
+		const format = { ...this.pagination, ...options.pagination };
+		const perPage = options.perPage || 100;
+
+		const query = serializeQuery(options.query);
+		const page = Object.keys(query).find(
+			(key) => key === format.pageParam || key.startsWith(`${format.pageParam}[`),
+		);
+		if (page) {
+			throw new FortytwoIntraClientQueryError(page, "pages are set by perPage and maxPages");
+		}
+
+		const fetchPage = (pageNumber: number, lastPage: number) => {
+			const deadline = withDeadline(options.signal, options.timeout ?? this.timeout);
+			return this.reqHandler(url, {
+				method: "GET",
+				attempt: 0,
+				currpage: pageNumber,
+				lastPage: lastPage,
+				maxRetry: this.maxRetry,
+				logLine: this.logLine,
+				errLogBody: this.errLogBody,
+				...options,
+				signal: deadline.signal,
+				query: {
+					...query,
+					[format.pageParam]: format.firstPage + pageNumber - 1,
+					[format.perPageParam]: perPage,
+				},
+			}).finally(deadline.clear);
+		};
+
+		return { url, format, perPage, fetchPage };
+	}
+
+	// Last page from the total or the Link header, null when pages must be followed one by one
+	private getLastPage(
+		res: AxiosResponse,
+		total: number | null,
+		format: PaginationFormat,
+		perPage: number,
+		maxPages: number,
+	): number | null {
+		if (total !== null) {
+			return Math.min(Math.ceil(total / perPage), maxPages);
+		}
+		if (format.linkHeader) {
+			const lastPage = getLastPage(res.headers["link"], format.pageParam);
+			if (lastPage !== null) {
+				return Math.min(lastPage - format.firstPage + 1, maxPages);
+			}
+		}
+		return null;
+	}
+
+	// Whether another page follows, from the rel="next" link when there is a Link header
+	private hasNextPage(
+		res: AxiosResponse,
+		items: unknown[],
+		format: PaginationFormat,
+		perPage: number,
+	) {
+		if (format.linkHeader && res.headers["link"]) {
+			return getPageLinks(res.headers["link"]).next !== undefined;
+		}
+		return items.length >= perPage;
+	}
+
+	private async collectPages(
+		endpoint: URL | string,
+		options: getAllOptions & { schema?: z.ZodType; meta?: boolean } & Partial<
+				Omit<partialOptions, "validation">
+			>,
+	) {
+		const { url, format, perPage, fetchPage } = this.pageFetcher(endpoint, options);
+		const maxPages = options.maxPages || Infinity;
+		const partial = options.partial ?? false;
+
+		// Filtered pages are validated one by one so failures point to their page
+		const filter = (options.validation ?? this.validation) === "filter";
+		const pageItems = (items: unknown[], pageNumber: number): unknown[] =>
+			filter ? this.validate(items, "GET", url, options, pageNumber) : items;
+
+		const pages = new Map<number, unknown[]>();
+		const failedPages: FailedPage[] = [];
+		const key = getCacheKey("getAll", url, {
+			...serializeQuery(options.query),
+			[format.perPageParam]: perPage,
+		});
+
+		let state: ResumeState;
+		let firstPage: AxiosResponse | null = null;
+		// Page size applied by the server, perPage unless capped
+		let pageSize = perPage;
+		if (options.resumeToken) {
+			state = decodeResumeToken(options.resumeToken, key);
+		} else {
+			firstPage = await fetchPage(1, Infinity);
+			const first = getPageItems(firstPage.data, firstPage.headers, format);
+			if (!first) {
+				const data = this.validate(firstPage.data, "GET", url, options);
+				const pagination: PaginationMeta = { total: null, pagesFetched: 1 };
+				if (partial) {
+					return { data, pagination, failedPages, resumeToken: null };
+				}
+				return options.meta ? { data, pagination } : data;
+			}
+
+			pageSize = first.perPage ?? perPage;
+			const lastPage = this.getLastPage(firstPage, first.total, format, pageSize, maxPages);
+			const follow = this.hasNextPage(firstPage, first.items, format, pageSize);
+			state = {
+				key,
+				lastPage,
+				total: first.total,
+				pages: Array.from({ length: Math.max((lastPage ?? 1) - 1, 0) }, (_, i) => i + 2),
+				// Without a last page, follow pages one by one
+				follow: lastPage === null && follow && maxPages > 1 ? 2 : null,
+			};
+		}
+
+		let received = 0;
+		const addPage = (pageNumber: number, res: AxiosResponse) => {
+			const page = getPageItems(res.data, res.headers, format);
+			const items = page?.items ?? [];
+			const size = page?.perPage ?? perPage;
+
+			// A short page before the last one means items are missing
+			const { lastPage } = state;
+			if (options.strict && lastPage !== null && pageNumber < lastPage && items.length < size) {
+				throw new FortytwoIntraClientPaginationError(
+					url.toString(),
+					`page ${pageNumber} has ${items.length} of ${size} items`,
+				);
+			}
+
+			received += items.length;
+			pages.set(pageNumber, pageItems(items, pageNumber));
+			return { items, size };
+		};
+
+		// Failures are kept for the resume token in partial mode, aborts still end the call
+		const fail = (pageNumber: number, error: unknown) => {
+			if (!partial || options.signal?.aborted || !(error instanceof Error)) {
+				throw error;
+			}
+			failedPages.push({ page: pageNumber, error });
+		};
+
+		if (firstPage) {
+			addPage(1, firstPage);
+		}
+
+		const promises = state.pages.map((pageNumber) =>
+			fetchPage(pageNumber, state.lastPage ?? Infinity),
+		);
+		const settled = partial
+			? await Promise.allSettled(promises)
+			: (await Promise.all(promises)).map((value) => ({ status: "fulfilled" as const, value }));
+		settled.forEach((result, i) => {
+			const pageNumber = state.pages[i];
+			if (result.status === "rejected") {
+				return fail(pageNumber, result.reason);
+			}
+			addPage(pageNumber, result.value);
+		});
+
+		let follow: number | null = null;
+		for (let pageNumber = state.follow; pageNumber !== null; ) {
+			let res: AxiosResponse;
+			try {
+				res = await fetchPage(pageNumber, Infinity);
+			} catch (err) {
+				fail(pageNumber, err);
+				follow = pageNumber;
+				break;
+			}
+			const { items, size } = addPage(pageNumber, res);
+			const next = pageNumber < maxPages && this.hasNextPage(res, items, format, size);
+			pageNumber = next ? pageNumber + 1 : null;
+		}
+
+		// Every page was fetched, the items must add up to the announced total
+		const { total, lastPage } = state;
+		if (options.strict && firstPage && !failedPages.length && total !== null && lastPage !== null) {
+			const expected = Math.min(total, lastPage * pageSize);
+			if (received < expected) {
+				throw new FortytwoIntraClientPaginationError(
+					url.toString(),
+					`received ${received} of ${expected} items`,
+				);
+			}
+		}
+
+		const allData = [...pages.keys()]
+			.sort((a, b) => a - b)
+			.flatMap((pageNumber) => pages.get(pageNumber)!);
+		const data = filter ? allData : this.validate(allData, "GET", url, options);
+		const pagination: PaginationMeta = { total, pagesFetched: pages.size };
+		if (!partial) {
+			return options.meta ? { data, pagination } : data;
+		}
+
+		const missing = failedPages.map((failed) => failed.page).filter((page) => page !== follow);
+		const resumeToken =
+			failedPages.length > 0
+				? encodeResumeToken({ key, pages: missing, follow, lastPage, total })
+				: null;
+		return { data, pagination, failedPages, resumeToken };
+	}
+
+	private async *streamPages(
+		endpoint: URL | string,
+		options: pageOptions & { schema?: z.ZodType },
+	): AsyncGenerator<any> {
+		const { url, format, perPage, fetchPage } = this.pageFetcher(endpoint, options);
+		const maxPages = options.maxPages || Infinity;
+		const lookahead = Math.max(options.lookahead || 2, 1);
+
+		const firstPage = await fetchPage(1, Infinity);
+		const first = getPageItems(firstPage.data, firstPage.headers, format);
+		if (!first) {
+			yield this.validate(firstPage.data, "GET", url, options);
+			return;
+		}
+
+		const pageSize = first.perPage ?? perPage;
+		const lastPage = this.getLastPage(firstPage, first.total, format, pageSize, maxPages);
+		if (lastPage === null) {
+			yield this.validate(first.items, "GET", url, options, 1);
+
+			// Without a last page, the next page is only known to exist from the previous one
+			let pageNumber = 1;
+			let res = firstPage;
+			let page = first;
+			while (
+				pageNumber < maxPages &&
+				this.hasNextPage(res, page.items, format, page.perPage ?? perPage)
+			) {
+				pageNumber++;
+				res = await fetchPage(pageNumber, Infinity);
+				page = getPageItems(res.data, res.headers, format) ?? {
+					items: [],
+					total: null,
+					perPage: null,
+				};
+				yield this.validate(page.items, "GET", url, options, pageNumber);
+			}
+			return;
+		}
+
+		// Keep at most `lookahead` pages in flight ahead of the consumer
+		const pending: Promise<AxiosResponse>[] = [];
+		let nextPage = 2;
+		const fill = () => {
+			while (pending.length < lookahead && nextPage <= lastPage) {
+				const page = fetchPage(nextPage++, lastPage);
+				// Pages left behind by an early exit must not surface as unhandled rejections
+				page.catch(() => {});
+				pending.push(page);
+			}
+		};
+
+		fill();
+		yield this.validate(first.items, "GET", url, options, 1);
+
+		for (let pageNumber = 2; pending.length; pageNumber++) {
+			const res = await pending.shift()!;
+			fill();
+			const items = getPageItems(res.data, res.headers, format)?.items ?? [];
+			yield this.validate(items, "GET", url, options, pageNumber);
+		}
+	}
+
+	private async *streamChanges(
+		endpoint: URL | string,
+		options: syncOptions & { schema?: z.ZodType },
+	): AsyncGenerator<any> {
+		const { since, checkpointStore, checkpointKey, ...pageOptions } = options;
+		const { range, sort, ...query } = options.query ?? {};
+		if (sort !== undefined) {
+			throw new FortytwoIntraClientQueryError("sort", "sync sorts by updated_at");
+		}
+		if (range?.updated_at !== undefined) {
+			throw new FortytwoIntraClientQueryError(
+				"range[updated_at]",
+				"set by since and the checkpoint",
+			);
+		}
+
+		const url = endpoint instanceof URL ? new URL(endpoint) : new URL(endpoint, this.base_url);
+		const key = checkpointKey ?? getCacheKey("sync", url, serializeQuery({ ...query, range }));
+		const checkpoint = (await checkpointStore?.get(key)) ?? null;
+
+		// Items updated during the scan land after `until` and are left to the next sync
+		const until = new Date();
+		let lower = checkpoint?.updated_at ?? new Date(since ?? 0).toISOString();
+		let seen = new Set(checkpoint?.ids);
+		let pageNumber = 1;
+
+		while (true) {
+			const { format, perPage, fetchPage } = this.pageFetcher(url, {
+				...pageOptions,
+				query: {
+					...query,
+					range: { ...range, updated_at: [new Date(lower), until] },
+					sort: ["updated_at", "id"],
+				},
+			});
+
+			const res = await fetchPage(pageNumber, Infinity);
+			const page = getPageItems(res.data, res.headers, format);
+			if (!page) {
+				throw new Error(`${url.pathname} is not a paginated list`);
+			}
+			const items = page.items as SyncedItem[];
+
+			// The window starts at the high-water mark, items already synced there are skipped
+			const lowerTime = Date.parse(lower);
+			const fresh = items.filter((item) => getUpdatedAt(item) !== lowerTime || !seen.has(item.id));
+			if (fresh.length) {
+				yield this.validate(fresh, "GET", url, options, pageNumber);
+			}
+
+			const last = items.at(-1);
+			if (last) {
+				// Restart from the last item, unless the whole page shares the high-water mark
+				if (getUpdatedAt(last) > lowerTime) {
+					lower = last.updated_at;
+					seen = new Set();
+					pageNumber = 1;
+				} else {
+					pageNumber++;
+				}
+				for (const item of items) {
+					if (getUpdatedAt(item) === Date.parse(lower)) seen.add(item.id);
+				}
+
+				await checkpointStore?.set(key, { updated_at: lower, ids: [...seen] });
+			}
+
+			if (!this.hasNextPage(res, items, format, page.perPage ?? perPage)) {
+				return;
+			}
+		}
+	}
+
+	// Public methods
+	public async get(endpoint: URL | string, options?: getOptions): Promise<any>;
+	public async get<S extends z.ZodType>(
+		endpoint: URL | string,
+		options: getOptions & { schema: S; validation: "safe" },
+	): Promise<ValidationResult<z.infer<S>>>;
+	public async get<S extends z.ZodType>(
+		endpoint: URL | string,
+		options: getOptions & { schema: S },
+	): Promise<z.infer<S>>;
+	public async get<S extends z.ZodType | undefined = undefined>(
+		endpoint: URL | string,
+		options: getOptions & { schema?: S } = {},
+	): Promise<any> {
+		return this.send("GET", endpoint, options);
+	}
+
+	public async post(endpoint: URL | string, options?: sendOptions): Promise<any>;
+	public async post<S extends z.ZodType>(
+		endpoint: URL | string,
+		options: sendOptions & { schema: S; validation: "safe" },
+	): Promise<ValidationResult<z.infer<S>>>;
+	public async post<S extends z.ZodType>(
+		endpoint: URL | string,
+		options: sendOptions & { schema: S },
+	): Promise<z.infer<S>>;
+	public async post<S extends z.ZodType | undefined = undefined>(
+		endpoint: URL | string,
+		options: sendOptions & { schema?: S } = {},
+	) {
+		return this.send("POST", endpoint, options);
+	}
+
+	public async put(endpoint: URL | string, options?: sendOptions): Promise<any>;
+	public async put<S extends z.ZodType>(
+		endpoint: URL | string,
+		options: sendOptions & { schema: S; validation: "safe" },
+	): Promise<ValidationResult<z.infer<S>>>;
+	public async put<S extends z.ZodType>(
+		endpoint: URL | string,
+		options: sendOptions & { schema: S },
+	): Promise<z.infer<S>>;
+	public async put<S extends z.ZodType | undefined = undefined>(
+		endpoint: URL | string,
+		options: sendOptions & { schema?: S } = {},
+	) {
+		return this.send("PUT", endpoint, options);
+	}
+
+	public async patch(endpoint: URL | string, options?: sendOptions): Promise<any>;
+	public async patch<S extends z.ZodType>(
+		endpoint: URL | string,
+		options: sendOptions & { schema: S; validation: "safe" },
+	): Promise<ValidationResult<z.infer<S>>>;
+	public async patch<S extends z.ZodType>(
+		endpoint: URL | string,
+		options: sendOptions & { schema: S },
+	): Promise<z.infer<S>>;
+	public async patch<S extends z.ZodType | undefined = undefined>(
+		endpoint: URL | string,
+		options: sendOptions & { schema?: S } = {},
+	) {
+		return this.send("PATCH", endpoint, options);
+	}
+
+	public async delete(endpoint: URL | string, options?: sendOptions): Promise<any>;
+	public async delete<S extends z.ZodType>(
+		endpoint: URL | string,
+		options: sendOptions & { schema: S; validation: "safe" },
+	): Promise<ValidationResult<z.infer<S>>>;
+	public async delete<S extends z.ZodType>(
+		endpoint: URL | string,
+		options: sendOptions & { schema: S },
+	): Promise<z.infer<S>>;
+	public async delete<S extends z.ZodType | undefined = undefined>(
+		endpoint: URL | string,
+		options: sendOptions & { schema?: S } = {},
+	) {
+		return this.send("DELETE", endpoint, options);
+	}
+
+	public async getAll(endpoint: URL | string, options?: getAllOptions): Promise<any>;
+	public async getAll(
+		endpoint: URL | string,
+		options: getAllOptions & partialOptions,
+	): Promise<PartialResult<any>>;
+	public async getAll<S extends z.ZodType>(
+		endpoint: URL | string,
+		options: getAllOptions & partialOptions & { schema: S },
+	): Promise<PartialResult<itemOf<z.infer<S>>>>;
+	public async getAll(
+		endpoint: URL | string,
+		options: getAllOptions & metaOptions,
+	): Promise<PagedResult<any>>;
+	public async getAll<S extends z.ZodType>(
+		endpoint: URL | string,
+		options: getAllOptions & metaOptions & { schema: S },
+	): Promise<PagedResult<itemOf<z.infer<S>>>>;
+	public async getAll<S extends z.ZodType>(
+		endpoint: URL | string,
+		options: getAllOptions & { schema: S; validation: "safe" },
+	): Promise<ValidationResult<z.infer<S>>>;
+	public async getAll<S extends z.ZodType>(
+		endpoint: URL | string,
+		options: getAllOptions & { schema: S },
+	): Promise<z.infer<S>>;
+	public async getAll<S extends z.ZodType | undefined = undefined>(
+		endpoint: URL | string,
+		options: getAllOptions & { schema?: S; meta?: boolean } & Partial<
+				Omit<partialOptions, "validation">
+			> = {},
+	) {
+		// The deadline covers every page
+		const deadline = withDeadline(options.signal, options.timeout ?? this.timeout);
+		try {
+			return await this.collectPages(endpoint, {
+				...options,
+				signal: deadline.signal,
+				timeout: 0,
+			});
+		} finally {
+			deadline.clear();
+		}
+	}
+
+	public paginate(endpoint: URL | string, options?: pageOptions): AsyncGenerator<any>;
+	public paginate<S extends z.ZodType>(
+		endpoint: URL | string,
+		options: pageOptions & { schema: S; validation: "safe" },
+	): AsyncGenerator<ValidationResult<z.infer<S>>>;
+	public paginate<S extends z.ZodType>(
+		endpoint: URL | string,
+		options: pageOptions & { schema: S },
+	): AsyncGenerator<z.infer<S>>;
+	public async *paginate<S extends z.ZodType | undefined = undefined>(
+		endpoint: URL | string,
+		options: pageOptions & { schema?: S } = {},
+	): AsyncGenerator<any> {
+		// Cancels the pages still in flight when the consumer stops early
+		const controller = new AbortController();
+		const signal = options.signal
+			? AbortSignal.any([options.signal, controller.signal])
+			: controller.signal;
+		try {
+			yield* this.streamPages(endpoint, { ...options, signal });
+		} finally {
+			controller.abort();
+		}
+	}
+
+	public iterate(endpoint: URL | string, options?: iterateOptions): AsyncGenerator<any>;
+	public iterate<S extends z.ZodType>(
+		endpoint: URL | string,
+		options: iterateOptions & { schema: S },
+	): AsyncGenerator<itemOf<z.infer<S>>>;
+	public async *iterate<S extends z.ZodType | undefined = undefined>(
+		endpoint: URL | string,
+		options: iterateOptions & { schema?: S } = {},
+	): AsyncGenerator<any> {
+		for await (const page of this.paginate(endpoint, options)) {
+			if (Array.isArray(page)) {
+				yield* page;
+			} else {
+				yield page;
+			}
+		}
+	}
+
+	// Pages of the items updated since the last checkpoint, oldest first
+	public sync(endpoint: URL | string, options?: syncOptions): AsyncGenerator<any[]>;
+	public sync<S extends z.ZodType>(
+		endpoint: URL | string,
+		options: syncOptions & { schema: S },
+	): AsyncGenerator<z.infer<S>>;
+	public async *sync<S extends z.ZodType | undefined = undefined>(
+		endpoint: URL | string,
+		options: syncOptions & { schema?: S } = {},
+	): AsyncGenerator<any> {
+		const controller = new AbortController();
+		const signal = options.signal
+			? AbortSignal.any([options.signal, controller.signal])
+			: controller.signal;
+		try {
+			yield* this.streamChanges(endpoint, { ...options, signal });
+		} finally {
+			controller.abort();
+		}
+	}
+
+	// State of the primary application
+	public get rateLimitState(): RateLimitState {
+		return this.routes[0].rateLimiter.state;
+	}
+
+	public get poolState(): AppState[] {
+		return this.routes.map((route) => ({
+			id: route.auth.id ?? null,
+			revoked: route.revoked,
+			rateLimit: route.rateLimiter.state,
+		}));
+	}
+
+	// Drops the cached responses of an endpoint and its sub-paths, or the whole cache
+	public async invalidateCache(endpoint?: URL | string) {
+		if (!this.cache) return;
+
+		const url = endpoint === undefined ? null : new URL(endpoint, this.base_url);
+		for (const key of await this.cache.keys()) {
+			if (!url || matchesCacheKey(key, url)) {
+				await this.cache.delete(key);
+			}
+		}
+	}
+
+	public use(hooks: IntraHooks) {
+		this.hooks.use(hooks);
+		return this;
+	}
+
+	public URL(endpoint: string) {
+		return new URL(endpoint, this.base_url);
+	}
+}
@@ -1,9 +1,21 @@
+import { RetryPolicy } from "./lib/retry";
+import { Priority } from "./lib/rateLimiter";
+import { InvalidHandler, ValidationMode } from "./lib/validation";
+import { IntraQuery } from "./lib/query";
+
 export type Method = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
 
-export type userToken = {
-	access_token: string;
+export type userTokenProvider = {
+	getAccessToken(): Promise<string>;
+	invalidate(accessToken: string): void;
 };
 
+export type userToken =
+	| {
+			access_token: string;
+	  }
+	| userTokenProvider;
+
 export type reqOptions = {
 	// internal
 	method: Method;
@@ -12,6 +24,8 @@ export type reqOptions = {
 	lastPage?: number;
 
 	maxRetry: number;
+	retry?: Partial<RetryPolicy>;
+	priority?: Priority;
 
 	perPage?: number;
 	maxPages?: number;
@@ -20,12 +34,19 @@ export type reqOptions = {
 	query?: querystring;
 	logLine?: boolean;
 	errLogBody?: boolean;
+	// GET requests only, the cache needs a store on the client
+	cache?: boolean;
+	cacheTtl?: number;
+	coalesce?: boolean;
+	signal?: AbortSignal;
+	// Deadline of the whole call in milliseconds, retries and pages included
+	timeout?: number;
+	// How a response that does not match the schema is handled
+	validation?: ValidationMode;
+	onInvalid?: InvalidHandler;
 };
 
-export type querystring = Record<
-	string,
-	string | number | boolean | Array<string | number | boolean>
->;
+export type querystring = IntraQuery;
 
 export type perPage = { perPage?: number };
 
@@ -34,3 +55,13 @@ type optional = "maxRetry";
 
 export type inputOptions = Omit<reqOptions, internal | optional> &
 	Partial<Pick<reqOptions, optional>>;
+
+export type paginateOptions = Omit<inputOptions, "body"> & { lookahead?: number };
+
+export type itemOf<T> = T extends Array<infer I> ? I : T;
+
+export type oauthRequest = {
+	redirect_uri: string;
+	state: string | null;
+	code_verifier: string | null;
+};
@@ -0,0 +1,55 @@
+import { EventEmitter } from "events";
+import type { FortytwoIntraClient } from "./index";
+import { singleFlight } from "./lib/singleFlight";
+import { UserToken } from "./schemas";
+import { userTokenProvider } from "./types";
+
+type UserSessionEvents = {
+	token: [token: UserToken, previous: UserToken];
+};
+
+export class FortytwoIntraUserSession
+	extends EventEmitter<UserSessionEvents>
+	implements userTokenProvider
+{
+	private current: UserToken;
+	private refresh: () => Promise<UserToken>;
+
+	constructor(
+		private client: FortytwoIntraClient,
+		token: UserToken,
+	) {
+		super();
+		this.current = token;
+
+		// Concurrent requests share a single refresh
+		this.refresh = singleFlight(async () => {
+			const previous = this.current;
+			this.current = await this.client.refreshUserToken(previous);
+			this.emit("token", this.current, previous);
+			return this.current;
+		});
+	}
+
+	public get token(): UserToken {
+		return this.current;
+	}
+
+	public isExpired(): boolean {
+		return this.current.expires_at - 30000 <= Date.now();
+	}
+
+	public async getAccessToken(): Promise<string> {
+		if (!this.isExpired()) {
+			return this.current.access_token;
+		}
+		return (await this.refresh()).access_token;
+	}
+
+	public invalidate(accessToken: string) {
+		// Force a refresh on the next request, unless the token already rotated
+		if (this.current.access_token === accessToken) {
+			this.current = { ...this.current, expires_at: 0 };
+		}
+	}
+}
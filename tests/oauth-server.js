@@ -1,11 +1,11 @@
 import express from "express";
 import { configDotenv } from "dotenv";
-import { FortytwoIntraClient } from "../dist/index.js";
+import { expressLogin, FortytwoIntraClient } from "../dist/index.js";
 
 configDotenv();
 
 const PORT = process.env.OAUTH_SERVER_PORT || 3000;
-const REDIRECT_URI_PATH = "/api/auth/callback";
+const AUTH_PATH = "/api/auth";
 
 const missing = [];
 const FORTYTWO_CLIENT_ID = process.env.FORTYTWO_CLIENT_ID;
@@ -19,19 +19,31 @@ if (missing.length) {
 }
 
 const client = new FortytwoIntraClient(FORTYTWO_CLIENT_ID, FORTYTWO_CLIENT_SECRET, {
-	redirect_uri: `http://localhost:${PORT}${REDIRECT_URI_PATH}`,
+	redirect_uri: `http://localhost:${PORT}${AUTH_PATH}/callback`,
 });
 
 const app = express();
 
 app.get("/", (req, res) => {
-	const { url } = client.getOAuthUrl();
 	res.send(`<html><body>
 	<h1>42 OAuth Test</h1>
-	<p><a href="${url}">Authorize with 42</a></p>
+	<p><a href="${AUTH_PATH}/login">Authorize with 42</a></p>
   </body></html>`);
 });
 
+app.use(
+	AUTH_PATH,
+	expressLogin(client, {
+		onLogin: ({ profile }) => `/welcome?login=${encodeURIComponent(profile.login)}`,
+		onError: (err) => console.error("Login failed", err),
+	}),
+);
+
+app.get("/welcome", (req, res) => {
+	// Sent as plain text, the login comes from the query string and is not trusted
+	res.type("text").send(`Welcome ${req.query.login}`);
+});
+
 app.get("/health", async (req, res) => {
 	try {
 		const token = await client.tokenInfos({ logLine: true });
@@ -42,20 +54,6 @@ app.get("/health", async (req, res) => {
 	}
 });
 
-app.get(REDIRECT_URI_PATH, async (req, res) => {
-	const { code, state } = req.query;
-	if (!code) return res.status(400).send("Missing code parameter");
-
-	try {
-		const token = await client.exchangeOAuthCode(String(code));
-		const me = await client.get("/v2/me", { token: token });
-		res.send(`<pre> Welcome ${me.login}</pre>`);
-	} catch (err) {
-		console.error("Exchange failed", err);
-		res.status(500).send("Token exchange failed");
-	}
-});
-
 app.listen(PORT, () => {
 	console.log("--------------------------------------------------");
 	console.log(`OAuth test server running on http://localhost:${PORT}`);
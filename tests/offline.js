@@ -0,0 +1,398 @@
+import assert from "assert";
+import { rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+	FortytwoIntraClient,
+	FortytwoIntraV3Client,
+	FileCacheStore,
+	FileTokenStore,
+	IntraMetrics,
+	MemoryCacheStore,
+	MemoryCheckpointStore,
+	isFortytwoIntraClientHttpError,
+	isFortytwoIntraClientPaginationError,
+	isFortytwoIntraClientQueryError,
+	serializeQuery,
+} from "../dist/index.js";
+import { IntraFixtures, MockIntraServer } from "../dist/testing/index.js";
+
+// Runs against the mock Intra server, no credentials or network needed
+
+const users = Array.from({ length: 250 }, (_, i) => ({ id: i + 1, login: `user${i + 1}` }));
+// The first five events share one updated_at
+const events = Array.from({ length: 10 }, (_, i) => ({
+	id: i + 1,
+	updated_at: new Date(Date.UTC(2025, 0, 1, 0, 0, Math.max(i - 4, 0))).toISOString(),
+}));
+
+const server = new MockIntraServer({
+	applications: [
+		{ client_id: "client_id", client_secret: "client_secret" },
+		{ client_id: "second_client_id", client_secret: "second_client_secret" },
+	],
+	users: [
+		{ id: 42, login: "jdoe", password: "password" },
+		{ id: 43, login: "asmith", password: "password" },
+	],
+	resources: { users, events, "campus/9/users": users.slice(0, 40), exams: [] },
+});
+await server.listen();
+
+const conf = {
+	...server.clientConf(),
+	logLine: false,
+	rateLimitMaxRequests: 100,
+	retry: { baseDelay: 10, maxDelay: 10 },
+};
+const client = new FortytwoIntraClient("client_id", "client_secret", conf);
+
+assert.equal((await client.getAll("users")).length, 250);
+assert.equal((await client.get("users/user3")).id, 3);
+
+// Queries
+assert.deepEqual(
+	serializeQuery({
+		filter: { login: ["user1", "user2"] },
+		range: { created_at: [new Date("2024-01-01T00:00:00Z"), new Date("2025-01-01T00:00:00Z")] },
+		sort: ["-id"],
+	}),
+	{
+		"filter[login]": "user1,user2",
+		"range[created_at]": "2024-01-01T00:00:00.000Z,2025-01-01T00:00:00.000Z",
+		sort: "-id",
+	},
+);
+const filtered = await client.getAll("users", {
+	query: { filter: { login: ["user1", "user2", "user3"] }, sort: ["-id"] },
+});
+assert.deepEqual(
+	filtered.map(({ id }) => id),
+	[3, 2, 1],
+);
+const ranged = await client.getAll("users", { query: { range: { id: [10, 19] } } });
+assert.equal(ranged.length, 10);
+
+const sent = server.requests.length;
+for (const query of [
+	{ filter: { login: [] } },
+	{ range: { id: [5, 1] } },
+	{ filter: { id: 1 }, range: { id: [1, 2] } },
+	{ sort: ["id", "-id"] },
+	{ page: 2 },
+]) {
+	await assert.rejects(client.getAll("users", { query }), isFortytwoIntraClientQueryError);
+}
+assert.equal(server.requests.length, sent);
+
+// Sync stops after the second page, then resumes from the checkpoint of the first one
+const checkpointStore = new MemoryCheckpointStore();
+const syncOptions = { perPage: 3, checkpointStore, checkpointKey: "events" };
+let syncedPages = 0;
+for await (const page of client.sync("events", syncOptions)) {
+	if (++syncedPages === 2) break;
+}
+assert.deepEqual(await checkpointStore.get("events"), {
+	updated_at: events[0].updated_at,
+	ids: [1, 2, 3],
+});
+const resumed = [];
+for await (const page of client.sync("events", syncOptions)) {
+	resumed.push(...page.map(({ id }) => id));
+}
+assert.deepEqual(resumed, [4, 5, 6, 7, 8, 9, 10]);
+
+// A page failing after its retries, then a resume of that page only
+server.inject({ status: 500, path: "/v2/users", query: { page: "3" }, times: 2 });
+const partial = await client.getAll("users", { perPage: 50, partial: true, maxRetry: 1 });
+assert.equal(partial.data.length, 200);
+assert.deepEqual(
+	partial.failedPages.map(({ page, error }) => [page, error.statusCode]),
+	[[3, 500]],
+);
+const completed = await client.getAll("users", {
+	perPage: 50,
+	partial: true,
+	resumeToken: partial.resumeToken,
+});
+assert.deepEqual(
+	completed.data.map(({ id }) => id),
+	users.slice(100, 150).map(({ id }) => id),
+);
+assert.equal(completed.resumeToken, null);
+
+// Strict mode rejects a short page before the last one
+server.inject({ status: 200, path: "/v2/users", query: { page: "2" }, body: users.slice(50, 53) });
+const truncated = await client.getAll("users", { perPage: 50, meta: true });
+assert.deepEqual(
+	[truncated.data.length, truncated.pagination],
+	[203, { total: 250, pagesFetched: 5 }],
+);
+server.inject({ status: 200, path: "/v2/users", query: { page: "2" }, body: users.slice(50, 53) });
+await assert.rejects(
+	client.getAll("users", { perPage: 50, strict: true }),
+	isFortytwoIntraClientPaginationError,
+);
+
+// Pages cancelled by an early exit are not errors
+const metrics = new IntraMetrics();
+const measured = new FortytwoIntraClient("client_id", "client_secret", {
+	...conf,
+	rateLimitMaxRequests: 1,
+	rateLimitPerMilliseconds: 50,
+	hooks: [metrics],
+});
+for await (const page of measured.paginate("users", { perPage: 10, lookahead: 4 })) {
+	break;
+}
+// Pages still in flight settle once aborted
+await new Promise((resolve) => setTimeout(resolve, 20));
+const usersMetrics = metrics.snapshot().find(({ endpoint }) => endpoint === "/v2/users");
+assert.ok(usersMetrics.aborted > 0);
+assert.equal(usersMetrics.errors, 0);
+assert.equal(usersMetrics.statuses.network_error, undefined);
+
+// Faults are retried
+server.inject({ status: 429, path: "/v2/users/1", retryAfter: 0 });
+server.inject({ status: 500, path: "/v2/users/1" });
+assert.equal((await client.get("users/1")).login, "user1");
+
+server.revokeTokens();
+assert.equal((await client.get("users/2")).login, "user2");
+
+// Server errors are only retried for the listed methods
+const countRequests = (method, path) =>
+	server.requests.filter((request) => request.method === method && request.path === path).length;
+server.reset();
+server.inject({ status: 500, path: "/v2/exams" });
+await assert.rejects(
+	client.post("exams", { body: { name: "first" } }),
+	(err) => isFortytwoIntraClientHttpError(err) && err.statusCode === 500,
+);
+assert.equal(countRequests("POST", "/v2/exams"), 1);
+server.inject({ status: 500, path: "/v2/exams" });
+await client.get("exams");
+assert.equal(countRequests("GET", "/v2/exams"), 2);
+
+const retryingPosts = new FortytwoIntraClient("client_id", "client_secret", {
+	...conf,
+	retry: { ...conf.retry, methods: ["POST"] },
+});
+server.reset();
+server.inject({ status: 500, path: "/v2/exams" });
+assert.equal((await retryingPosts.post("exams", { body: { name: "second" } })).name, "second");
+assert.equal(countRequests("POST", "/v2/exams"), 2);
+
+// A pool application with rejected credentials fails over to the others
+const pool = new FortytwoIntraClient("client_id", "client_secret", {
+	...conf,
+	apps: [{ client_id: "second_client_id", client_secret: "revoked" }],
+});
+const pooled = await Promise.all([1, 2, 3, 4].map((id) => pool.get(`users/${id}`)));
+assert.deepEqual(
+	pooled.map(({ id }) => id),
+	[1, 2, 3, 4],
+);
+assert.deepEqual(
+	pool.poolState.map(({ id, revoked }) => [id, revoked]),
+	[
+		["client_id", false],
+		["second_client_id", true],
+	],
+);
+
+// Aged background requests never outrank interactive ones
+const throttled = new FortytwoIntraClient("client_id", "client_secret", {
+	...conf,
+	rateLimitMaxRequests: 1,
+	rateLimitPerMilliseconds: 20,
+	priorityAging: 50,
+});
+await throttled.get("users/1");
+let served = 0;
+const backlog = Array.from({ length: 30 }, (_, i) =>
+	throttled.get(`users/${i + 1}`, { priority: "background" }).then(() => served++),
+);
+await new Promise((resolve) => setTimeout(resolve, 200));
+const before = served;
+await throttled.get("users/user1", { priority: "interactive" });
+assert.ok(served - before <= 2, `${served - before} background requests went first`);
+await Promise.all(backlog);
+
+// Aged background requests are still served under sustained normal load
+// The load stops after a second either way, so a starved request fails the check instead of hanging
+let loading = true;
+const loadUntil = Date.now() + 1000;
+const load = Array.from({ length: 4 }, async () => {
+	while (loading && Date.now() < loadUntil) await throttled.get("users/2");
+});
+await new Promise((resolve) => setTimeout(resolve, 50));
+const queuedAt = Date.now();
+await throttled.get("users/3", { priority: "background" });
+const waited = Date.now() - queuedAt;
+loading = false;
+await Promise.all(load);
+assert.ok(waited < 400, `background request waited ${waited}ms`);
+
+// OAuth flow
+const request = client.getOAuthUrl({ redirect_uri: "http://localhost/callback", pkce: true });
+const redirect = await fetch(request.url, { redirect: "manual" });
+const code = new URL(redirect.headers.get("location")).searchParams.get("code");
+const token = await client.completeOAuth({ code, expected: request });
+assert.equal((await client.get("me", { token })).login, "jdoe");
+await assert.rejects(
+	client.exchangeOAuthCode("bad", "http://localhost/callback"),
+	isFortytwoIntraClientHttpError,
+);
+
+// Without X-Total nor a rel="last" link, rel="next" links are followed
+const linksOnly = new MockIntraServer({ resources: { users }, totals: false });
+await linksOnly.listen();
+const following = new FortytwoIntraClient("client_id", "client_secret", {
+	...conf,
+	...linksOnly.clientConf(),
+});
+const followed = await following.getAll("users", { perPage: 40, meta: true, strict: true });
+assert.equal(followed.data.length, 250);
+assert.deepEqual(followed.pagination, { total: null, pagesFetched: 7 });
+await linksOnly.close();
+
+// V3 password grant
+const v3 = new FortytwoIntraV3Client(
+	{
+		client_id: "client_id",
+		client_secret: "client_secret",
+		username: "jdoe",
+		password: "password",
+	},
+	{ ...server.v3ClientConf(), logLine: false },
+);
+assert.equal((await v3.getAll("users", { perPage: 100 })).length, 250);
+
+// Staff users sharing a cache each get their own entries
+const sharedCache = new MemoryCacheStore();
+const staff = ["jdoe", "asmith"].map(
+	(username) =>
+		new FortytwoIntraV3Client(
+			{ client_id: "client_id", client_secret: "client_secret", username, password: "password" },
+			{ ...server.v3ClientConf(), logLine: false, cache: sharedCache },
+		),
+);
+server.reset();
+for (const client of [...staff, ...staff]) {
+	assert.equal((await client.get("users/1")).id, 1);
+}
+assert.equal(server.requests.filter(({ path }) => path === "/v3/users/1").length, 2);
+
+// Fresh entries are served without a request, stale ones are revalidated
+const requestsTo = (path) => server.requests.filter((request) => request.path === path);
+const cached = new FortytwoIntraClient("client_id", "client_secret", {
+	...conf,
+	cache: new MemoryCacheStore(),
+});
+server.reset();
+await cached.get("users/4");
+assert.equal((await cached.get("users/4")).login, "user4");
+assert.equal(requestsTo("/v2/users/4").length, 1);
+await cached.invalidateCache("users");
+await cached.get("users/4");
+assert.equal(requestsTo("/v2/users/4").length, 2);
+
+await cached.get("users/5", { cacheTtl: 0 });
+assert.equal((await cached.get("users/5", { cacheTtl: 0 })).login, "user5");
+assert.deepEqual(
+	requestsTo("/v2/users/5").map(({ status }) => status),
+	[200, 304],
+);
+
+// Identical GETs in flight share one request, an abort only cancels it for its own caller
+const coalescing = new FortytwoIntraClient("client_id", "client_secret", {
+	...conf,
+	rateLimitMaxRequests: 1,
+	rateLimitPerMilliseconds: 50,
+	coalesce: true,
+});
+await coalescing.get("users/1");
+server.reset();
+const joined = await Promise.all([1, 2, 3].map(() => coalescing.get("users/6")));
+assert.deepEqual(
+	joined.map(({ id }) => id),
+	[6, 6, 6],
+);
+assert.equal(requestsTo("/v2/users/6").length, 1);
+
+const joiner = new AbortController();
+const originator = coalescing.get("users/7");
+const aborted = coalescing.get("users/7", { signal: joiner.signal });
+joiner.abort();
+await assert.rejects(aborted);
+assert.equal((await originator).id, 7);
+assert.equal(requestsTo("/v2/users/7").length, 1);
+
+const original = new AbortController();
+const cancelled = coalescing.get("users/8", { signal: original.signal });
+const rejoined = coalescing.get("users/8");
+await new Promise((resolve) => setTimeout(resolve, 10));
+original.abort();
+await assert.rejects(cancelled);
+assert.equal((await rejoined).id, 8);
+assert.equal(requestsTo("/v2/users/8").length, 1);
+
+// Cache stores are best-effort, concurrent writes and failing stores never fail a request
+const cacheDirectory = join(tmpdir(), `fortytwo-intra-cache-${process.pid}`);
+const fileCached = new FortytwoIntraClient("client_id", "client_secret", {
+	...conf,
+	cache: new FileCacheStore(cacheDirectory),
+});
+const concurrent = await Promise.all([1, 2, 3].map(() => fileCached.get("users/1")));
+assert.deepEqual(
+	concurrent.map(({ id }) => id),
+	[1, 1, 1],
+);
+await rm(cacheDirectory, { recursive: true });
+
+const failingStore = {
+	get: async () => Promise.reject(new Error("store down")),
+	set: async () => Promise.reject(new Error("store down")),
+	delete: async () => {},
+	keys: async () => [],
+};
+const uncached = new FortytwoIntraClient("client_id", "client_secret", {
+	...conf,
+	cache: failingStore,
+});
+assert.equal((await uncached.get("users/1")).id, 1);
+
+// Two stores on one file keep each other's tokens
+const tokensPath = join(tmpdir(), `fortytwo-intra-tokens-${process.pid}.json`);
+const stores = [new FileTokenStore(tokensPath), new FileTokenStore(tokensPath)];
+const stored = { access_token: "token", token_type: "bearer", expires_at: Date.now() + 60000 };
+await Promise.all(
+	Array.from({ length: 6 }, (_, i) =>
+		stores[i % 2].set({ client: "client_id", subject: `subject${i}` }, stored),
+	),
+);
+for (let i = 0; i < 6; i++) {
+	assert.deepEqual(await stores[0].get({ client: "client_id", subject: `subject${i}` }), stored);
+}
+await rm(tokensPath);
+
+// Record, then replay without the server
+const path = join(tmpdir(), "fortytwo-intra-campus-users.json");
+const recorder = new IntraFixtures({ path, mode: "record" });
+const recording = new FortytwoIntraClient("client_id", "client_secret", {
+	...conf,
+	adapter: recorder.adapter,
+});
+const recorded = await recording.getAll("campus/9/users", { perPage: 15 });
+await recorder.save();
+await server.close();
+
+const fixtures = new IntraFixtures({ path });
+const replaying = new FortytwoIntraClient("client_id", "client_secret", {
+	...conf,
+	adapter: fixtures.adapter,
+});
+assert.deepEqual(await replaying.getAll("campus/9/users", { perPage: 15 }), recorded);
+
+console.log("All offline tests passed");